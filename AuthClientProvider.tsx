@@ -0,0 +1,23 @@
+// AuthClientProvider.tsx
+// Partage un AuthClient avec tous les écrans d'authentification
+// - évite de passer `client` à chaque <AuthScreen />
+// - en test : <AuthClientProvider client={fakeClient}>
+
+import React, { createContext, useContext } from 'react';
+import type { AuthClient } from './authClient';
+
+type Props = {
+	children: React.ReactNode;
+	client: AuthClient;
+};
+
+const AuthClientContext = createContext<AuthClient | null>(null);
+
+export default function AuthClientProvider({ children, client }: Props) {
+	return <AuthClientContext.Provider value={client}>{children}</AuthClientContext.Provider>;
+}
+
+// Client du provider le plus proche, ou null s'il n'y en a pas.
+export function useAuthClient(): AuthClient | null {
+	return useContext(AuthClientContext);
+}
@@ -0,0 +1,141 @@
+// AuthProvider.tsx
+// Contexte de session partagé par toute l'app
+// - restaure la session au démarrage
+// - expose status, user, signIn(), signOut() et subscribe() via useSession()
+// - branche le refresh automatique des tokens sur l'instance Axios de l'app
+// - renouvelle le token peu avant son expiration et prévient l'app (voir sessionExpiry.ts)
+// - partage l'AuthClient avec les écrans (voir AuthClientProvider)
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { AxiosInstance } from 'axios';
+import AuthClientProvider from './AuthClientProvider';
+import type { AuthClient, HttpAuthClient } from './authClient';
+import { attachAuthInterceptors, refreshSession } from './authInterceptors';
+import { createSecureStorage, type StorageAdapter } from './sessionStorage';
+import { createSessionStore, type SessionListener, type SessionState, type SessionStore } from './sessionStore';
+import type { AuthResponse } from './AuthScreen';
+import { watchSessionExpiry, type SessionExpiryListener } from './sessionExpiry';
+
+/***
+ * Session : ce que useSession() retourne.
+ *  * status/user/tokens : l'état courant (re-render automatique quand il change).
+ *  * signIn : appelé par AuthScreen avec le résultat de handleSubmit.
+ *  * signOut : efface les tokens (mémoire + stockage).
+ *  * subscribe : pour réagir aux changements hors rendu (ex: naviguer vers Login après un signOut).
+ *  * claims/expiresAt : lus dans l'accessToken (JWT). isExpired() : token expiré maintenant (ou dans leewayMs).
+ *  * subscribeExpiry : événements 'expiring' / 'refreshed' / 'expired' (voir sessionExpiry.ts).
+ */
+export type Session<TUser = unknown> = SessionState<TUser> & {
+	signIn: (payload: AuthResponse) => Promise<void>;
+	signOut: () => Promise<void>;
+	subscribe: (listener: SessionListener) => () => void;
+	isExpired: (leewayMs?: number) => boolean;
+	subscribeExpiry: (listener: SessionExpiryListener) => () => void;
+};
+
+type Props = {
+	children: React.ReactNode;
+	// Stockage à utiliser. Par défaut : SecureStore. En test : createMemoryStorage().
+	storage?: StorageAdapter;
+	// Clé sous laquelle la session est enregistrée.
+	storageKey?: string;
+	// Store déjà créé (ex: pour le partager avec du code hors React). Si fourni, storage/storageKey sont ignorés.
+	store?: SessionStore;
+	// Client d'authentification : sert au refresh et est partagé avec les <AuthScreen /> en dessous.
+	client?: AuthClient;
+	// Instance Axios de l'app sur laquelle ajouter le token et le refresh automatique.
+	// Par défaut : celle du client s'il vient de createHttpAuthClient(). Sans les deux : pas d'intercepteurs.
+	http?: AxiosInstance;
+	// Endpoint de refresh quand il n'y a pas de client (défaut : '/auth/refresh').
+	refreshPath?: string;
+	// Refresh anticipé : combien de temps (ms) avant l'expiration de l'accessToken. Défaut : 60000.
+	// Si le refresh est impossible, l'événement 'expiring' est envoyé à ce moment-là.
+	refreshBeforeExpiryMs?: number;
+	// Événements d'expiration de la session (ex: afficher "ta session va expirer, enregistre ton brouillon").
+	onSessionExpiry?: SessionExpiryListener;
+};
+
+const SessionContext = createContext<Session | null>(null);
+
+export default function AuthProvider({
+	children,
+	storage,
+	storageKey,
+	store: externalStore,
+	client,
+	http: httpProp,
+	refreshPath,
+	refreshBeforeExpiryMs,
+	onSessionExpiry,
+}: Props) {
+	// Le store est créé une seule fois (l'initialiseur de useState n'est appelé qu'au premier rendu).
+	const [store] = useState(() => externalStore ?? createSessionStore(storage ?? createSecureStorage(), storageKey));
+
+	// Relit la session enregistrée au montage (démarrage de l'app).
+	useEffect(() => {
+		store.restore();
+	}, [store]);
+
+	// Authorization + refresh sur 401. La fonction retournée retire les intercepteurs au démontage.
+	const http = httpProp ?? (client as HttpAuthClient | undefined)?.http;
+	useEffect(() => {
+		if (!http) return;
+		return attachAuthInterceptors(http, store, { refresh: client?.refresh, refreshPath });
+	}, [http, store, client, refreshPath]);
+
+	// Expiration : refresh anticipé + événements, diffusés à onSessionExpiry et aux abonnés de subscribeExpiry.
+	const [expiryListeners] = useState(() => new Set<SessionExpiryListener>());
+	const onSessionExpiryRef = useRef(onSessionExpiry);
+	onSessionExpiryRef.current = onSessionExpiry;
+	useEffect(() => {
+		const canRefresh = !!client?.refresh || !!http;
+		return watchSessionExpiry(store, {
+			refresh: canRefresh ? () => refreshSession(store, http, { refresh: client?.refresh, refreshPath }) : undefined,
+			beforeExpiryMs: refreshBeforeExpiryMs,
+			onEvent: (event) => {
+				onSessionExpiryRef.current?.(event);
+				expiryListeners.forEach(listener => listener(event));
+			},
+		});
+	}, [store, http, client, refreshPath, refreshBeforeExpiryMs, expiryListeners]);
+
+	// Fonction stable : un useEffect qui s'abonne ne se relance pas à chaque changement de session.
+	const subscribeExpiry = useCallback((listener: SessionExpiryListener) => {
+		expiryListeners.add(listener);
+		return () => {
+			expiryListeners.delete(listener);
+		};
+	}, [expiryListeners]);
+
+	const state = useSyncExternalStore(store.subscribe, store.getState);
+
+	const session = useMemo<Session>(() => ({
+		...state,
+		signIn: store.signIn,
+		signOut: store.signOut,
+		subscribe: store.subscribe,
+		isExpired: store.isExpired,
+		subscribeExpiry,
+	}), [state, store, subscribeExpiry]);
+
+	return (
+		<SessionContext.Provider value={session}>
+			{client ? <AuthClientProvider client={client}>{children}</AuthClientProvider> : children}
+		</SessionContext.Provider>
+	);
+}
+
+// Accès à la session. Doit être utilisé sous un <AuthProvider>.
+// TUser : type de l'utilisateur (ex: useSession<User>()), le même que celui donné à <AuthScreen userSchema={...} />.
+export function useSession<TUser = unknown>(): Session<TUser> {
+	const session = useContext(SessionContext);
+	if (!session) {
+		throw new Error('useSession() doit être utilisé à l\'intérieur de <AuthProvider>.');
+	}
+	return session as Session<TUser>;
+}
+
+// Variante qui retourne null hors provider (utilisée par AuthScreen, qui peut fonctionner seul).
+export function useOptionalSession(): Session | null {
+	return useContext(SessionContext);
+}
@@ -0,0 +1,74 @@
+// AuthScreen.test.tsx
+// Accessibilité de l'écran rendu : libellés et rôles, erreur rattachée au champ, focus après un envoi refusé,
+// raison lue sur le bouton désactivé (hors ligne, blocage après trop d'échecs).
+
+import React from 'react';
+import { TextInput } from 'react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import AuthScreen from './AuthScreen';
+import { createFakeConnectivity } from './connectivity';
+import { BUNDLED_CATALOGS, translate, type Translate } from './i18n';
+import { DEFAULT_THROTTLE_KEY } from './loginThrottle';
+import { createMemoryStorage } from './sessionStorage';
+
+const t: Translate = (key, params) => translate(BUNDLED_CATALOGS, 'fr', key, params);
+
+function renderScreen(props: Partial<React.ComponentProps<typeof AuthScreen>> = {}) {
+	return render(
+		<AuthScreen
+			apiBaseUrl="https://api.example.com"
+			connectivity={createFakeConnectivity(true)}
+			throttleStorage={createMemoryStorage()}
+			{...props}
+		/>,
+	);
+}
+
+describe('AuthScreen accessibility', () => {
+	it('annonce chaque champ et le bouton principal, sans avertissement de l\'audit', async () => {
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+		renderScreen();
+
+		fireEvent.changeText(screen.getByLabelText(t('field.email.a11y')), 'pol@mail.com');
+		fireEvent.changeText(screen.getByLabelText(t('field.password.a11y')), 'secret');
+		const submit = await screen.findByRole('button', { name: t('login.title') });
+		expect(submit.props.accessibilityHint).toBe(t('login.submitHint'));
+		expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('AuthScreen accessibility'));
+		warn.mockRestore();
+	});
+
+	it('rattache l\'erreur au champ et place le focus sur le premier champ à corriger', async () => {
+		const focus = jest.spyOn(TextInput.prototype as unknown as { focus: () => void }, 'focus');
+		renderScreen();
+
+		fireEvent.press(await screen.findByRole('button', { name: t('login.title') }));
+
+		const email = screen.getByLabelText(t('a11y.fieldError', { label: t('field.email.a11y'), error: t('validation.emailRequired') }));
+		expect(email).toBeTruthy();
+		expect(focus).toHaveBeenCalled();
+		expect(focus.mock.contexts.at(-1)).toMatchObject({ props: { accessibilityLabel: email.props.accessibilityLabel } });
+		expect(screen.getByRole('button', { name: t('login.title') }).props.accessibilityHint).toBe(t('a11y.formHasErrors'));
+		focus.mockRestore();
+	});
+
+	it('explique pourquoi le bouton est désactivé hors ligne', async () => {
+		renderScreen({ connectivity: createFakeConnectivity(false) });
+
+		const submit = await screen.findByRole('button', { name: t('login.title') });
+		await screen.findByText(t('network.offline'));
+		expect(submit.props.accessibilityState).toMatchObject({ disabled: true });
+		expect(submit.props.accessibilityHint).toBe(t('network.offline'));
+	});
+
+	it('explique pourquoi le bouton est désactivé pendant un blocage', async () => {
+		const throttleStorage = createMemoryStorage({
+			[DEFAULT_THROTTLE_KEY]: JSON.stringify({ failures: 10, blockedUntil: Date.now() + 10 * 60_000, locked: true }),
+		});
+		renderScreen({ throttleStorage });
+
+		await screen.findByText(t('throttle.lockedTitle'));
+		const submit = screen.getByRole('button', { name: /Réessaie dans/ });
+		expect(submit.props.accessibilityState).toMatchObject({ disabled: true });
+		expect(submit.props.accessibilityHint).toMatch(/^Trop de tentatives\. Tu pourras réessayer dans \d+:\d{2}/);
+	});
+});
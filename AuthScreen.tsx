@@ -1,8 +1,9 @@
 // src/screens/AuthScreen.tsx
 // Écran d'authentification unique avec bascule Login/Register
 // - Style: React Native StyleSheet (pas de Tailwind)
-// - Requêtes: fetch() minimal (modifiable vers axios plus tard)
-// - Remplace DEFAULT_API_URL par l'IP locale de ton PC accessible depuis ton téléphone
+// - Requêtes: via un AuthClient (voir authClient.ts), HTTP/Axios par défaut
+// - Logique (état, validation, envois): useAuthForm.ts -> ce fichier n'est que l'interface par défaut
+// - Passe apiBaseUrl avec l'IP locale de ton PC accessible depuis ton téléphone (ou un client déjà configuré)
 
 /***
  * useState, useCallback: hooks React pour l'état local et les fonctions mémorisées.
@@ -10,15 +11,16 @@
  * keyboardAvoidingview, platform : pour éviter que le clavier recouvre les inputs.
  * ScrollView : permet de scroller si l'écran est petit.
  */
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
-ActivityIndicator,
+type StyleProp,
+type TextStyle,
+type ViewStyle,
 View,
 Text,
 TextInput,
 StyleSheet,
 TouchableOpacity,
-Alert,
 KeyboardAvoidingView,
 Platform,
 Pressable,
@@ -26,211 +28,237 @@ SafeAreaView,
 ScrollView,
 } from 'react-native';
 // import { env } from "expo-env";
-import { api } from '../../api/api'; // adapte le chemin selon ton projet
+import { OTP_LENGTH, useAuthForm, type AuthFormOptions } from './useAuthForm';
+import OtpInput, { type OtpInputHandle } from './OtpInput';
+import ConsentCheckbox from './ConsentCheckbox';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import FormField from './FormField';
+import PasswordInput from './PasswordInput';
+import PrimaryButton from './PrimaryButton';
+import InlineLink from './InlineLink';
+import { auditAuthScreen, focusField, focusForAccessibility, submitLabelKey } from './accessibility';
+import { passwordStrength } from './passwordPolicy';
+import { EXTRA_FIELD_INPUT, type ExtraField } from './registerFields';
+import { useTranslation } from './i18n';
+import { useTheme } from './ThemeProvider';
+import type { Theme } from './theme';
 
 
 
 //Types de réponse API (à adapter à ton backend si besoin)
 /***
  * AuthResponse : forme attendue de la réponse serveur (tokens + user); Adapte si ton backend renvoie d'autres champs.
+ * TUser : type de l'utilisateur renvoyé par ton backend (ex: AuthResponse<{ id: number; name: string }>).
+ * La réponse est vérifiée au runtime avant d'annoncer le succès (voir responseSchema.ts, option userSchema).
  * Props : propriétés du composant (un callback onAuthSuccess et apiBaseUrl pour l'URL de ton API).
  */
-type AuthResponse = {
-	accessToken: string;    // -> il doit y avoir une clé accessToken avec une valeur string(text).
+export type AuthResponse<TUser = unknown> = {
+	accessToken: string;    // -> il doit y avoir une clé accessToken avec une valeur string(text) non vide.
 	refreshToken: string;   // -> pareil pour le refresh. 
-	user?: any;             // -> clé optionne (?) -> peut exister ou non. Type any = n'importe quoi (on pourra le préciser plus tard. ex: {id: number, name: string}).
-	message?: string;       // -> message d'erreur éventuel. Là aussi optionnel.
+	user?: TUser;           // -> clé optionne (?) -> peut exister ou non. Type TUser = celui choisi par l'app (unknown par défaut, ex: {id: number, name: string}).
+	message?: string;       // -> message éventuel du serveur. Là aussi optionnel (n'indique PAS un échec : seul l'accessToken compte).
 };                          // exemple concret : {"accessToken": "abcde123", "refreshToken": "efgh456", "user":{"id": 1, "name": "pol"}} - - - réponse API en cas d'échec : {"message": "Mot de passe incorrect"}.
 
-type Props = {
-	//callback optionnelle à appeler en cas de succés (ex: enregistrer les tokens, naviguer)
-	onAuthSuccess?: (payload: AuthResponse) => void;
-	
-	//C'est une fonction optionne (le ?). ELle est fourni, elle prend en entrée un payload de type AuthResponse
-	//El ne retourne rien => void
-	//En pratique, ca sert à transmettre les tokens au parents (ex: stocker en mémoire et naviguer vers une autre page)
-	apiBaseUrl?: string;
-	//Permet de surcharger l'URL de base au besoin
-	//c'est une chaîne optionnelle.
-	//Si on ne passe rien, AuthScreen utilise DEFAULT_API_URL.
-	//Si on veux tester une autre API (rx. serveur de prod,) tu peux passer une autre URL.
+type Props<TUser> = AuthFormOptions<TUser> & {
+	//Surcharges de style pour cette instance, par "slot" (appliquées après le thème).
+	//ex: styles={{ title: { fontSize: 30 }, button: { borderRadius: 24 } }}
+	styles?: AuthScreenStyles;
 };
 
-// const DEFAULT_API_URL = env.API_BASE_URL;
+// Slots stylables de l'écran
+export type AuthScreenStyles = {
+	screen?: StyleProp<ViewStyle>;     // SafeAreaView (fond)
+	container?: StyleProp<ViewStyle>;  // contenu du ScrollView
+	title?: StyleProp<TextStyle>;
+	subtitle?: StyleProp<TextStyle>;
+	field?: StyleProp<ViewStyle>;
+	label?: StyleProp<TextStyle>;
+	input?: StyleProp<TextStyle>;
+	fieldError?: StyleProp<TextStyle>;
+	error?: StyleProp<TextStyle>;
+	button?: StyleProp<ViewStyle>;
+	buttonText?: StyleProp<TextStyle>;
+	link?: StyleProp<TextStyle>;
+	switchText?: StyleProp<TextStyle>;
+	switchLink?: StyleProp<TextStyle>;
+};
+
+// Durée d'attente affichée : "45 s" sous la minute, sinon "m:ss"
+function formatWait(seconds: number): string {
+	if (seconds < 60) return `${seconds} s`;
+	return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
 
-export default function AuthScreen({ onAuthSuccess}: Props){
-	// Étatd du formulaire
-	const [isLogin, setIsLogin] = useState(true); // true = mode connexion, false = mode création
-	const [name, setName] = useState('');
-	const [email, setEmail] = useState('');
-	const [password, setPassword] = useState('');
-	const [confirm, setConfirm] = useState('');
-	const [loading, setLoading] = useState(false);
-	const [error, setError] = useState<string | null>(null);
-	
-
-	// REFS pour navigation clavier
+// const DEFAULT_API_URL = env.API_BASE_URL;
+// -> remplacé par la prop apiBaseUrl (ou un AuthClient fourni par l'app).
+
+// Liens reçus par email (voir useAuthForm.ts), gardés ici pour les imports existants, et lien vers l'écran (mode + pré-remplissage)
+export { parseAuthLink, parseLoginLink, parseResetLink, parseVerifyEmailLink } from './useAuthForm';
+
+export default function AuthScreen<TUser = unknown>({ styles: overrides = {}, ...options }: Props<TUser>){
+	const { locale } = options;
+	// Traductions + sens de lecture (voir i18n.tsx)
+	const { t, flipRow } = useTranslation(locale);
+
+	// Thème (clair/sombre, couleurs de la marque) -> styles recalculés seulement quand le thème change
+	const theme = useTheme();
+	const styles = useMemo(() => createStyles(theme), [theme]);
+
+	// État, validation et actions du formulaire (voir useAuthForm.ts) : l'écran ne fait que l'afficher.
+	const {
+		step: screen,
+		mode,
+		fields,
+		errors: fieldErrors,
+		canSubmit,
+		showStrength,
+		passwordRules: passwordRuleResults,
+		loading,
+		error,
+		online,
+		throttle,
+		submit,
+		invalidFields,
+		submitOtp,
+		setMode,
+		passwordless,
+		oauth,
+		challenge,
+		reset,
+		mfa,
+		verification,
+		registerOrder,
+		consents,
+	} = useAuthForm<TUser>(options);
+	const extraFields = options.extraFields ?? [];
+	const throttleWait = formatWait(throttle.remaining);
+
+	// REFS pour navigation clavier (et focus du premier champ en erreur)
+	const nameRef = useRef<TextInput>(null);
 	const emailRef = useRef<TextInput>(null);
 	const passwordRef = useRef<TextInput>(null);
 	const confirmRef = useRef<TextInput>(null);
-
-
-	// Validation simple
-	//Un email valide (isEmailValid(email) doit être true).
-	//Un mot de passe d’au moins 6 caractères (password.length >= 6).
-	//---
-	//Un nom non vide (name.trim().length > 0).
-	//.trim() = enlève les espaces au début et à la fin (donc " " devient "").
-	//Donc ça empêche qu’un utilisateur entre juste des espaces.
-	//Un email valide (isEmailValid(email)).
-	//Un mot de passe d’au moins 6 caractères.
-	//Le mot de passe et la confirmation doivent être identiques (password === confirm).
-	const isEmailValid = (e: string) => /\S+@\S+\.\S+/.test(e);
-	const canSubmit = isLogin
-		? isEmailValid(email) && password.length >= 6 : 
-		name.trim().length > 0 && 
-		isEmailValid(email) && 
-		password.length >= 6 && 
-		password === confirm; 
-
-	// Bascule Login/Register. Bouton/lien qui bascule entre les deux modes.
-	// Déclaration d'une constante qui contient une fonction qui sera appelée lorsque l'utilisateur clique sur "créer un compte" ou "se connecter".
-	// useCallback est un hook. Il mémorise une fonction pour qu'elle ne soit pas recréée à chaque rendu du composant.
-	// ici, comme le tableau "  []  " est vide, cela veut dire que la fonction ne sera appelée qu'une seul fois.
-	/*
-		* setIslogin(prev => !prev);
-		* isLogin est un state qui vaut:
-			true en mode connexion
-			false en mode inscription
-		* setIsLogin permet de changer de valeur.
-		* La syntaxe prev => !prev veut dire:
-			.prend la valeur précédente (prev)
-			.inverse-la (!prev)
-			.si c'était true -> ca devient false
-			.si c'etait false -> ca devient true
-		-> Donc on bascule entre Login et Register
-	
-		Lorsque l'on change de mode, on doit supprimer les messages d'erreurs qui sont affichés.
-		(ex: adresse email incorrecte, mot de passe invalide,...)
-			. si on reste avec l'erreur visible, ca fera bzarre pour l'utilisateur.
-			. Donc à chaque bascule, on remet l'erreur à vide.
-	*/
-	const switchMode = useCallback(() => {
-		setIsLogin(prev => !prev);
-		setError(null);
-	}, []);
-
-	// Soumission
-	/**
-	 * useCallback(async () => {...}, [...])
-	 *  * useCallback : mémorise la fonction pour ne pas qu'elle soit recréée à chaque rendu du composant (optimisation).
-	 *  * async () => {...} : la fonction est asynchrone, car on va attendre (await) la réponse du serveur.
-	 *  * [isLogin, email, pawword, name, confirm, apiBaseUrl, onAuthSuccess] : ce sont les dépendances -> si une de ces valeurs change, React recrée la fonction (pour avoir la bonne version).
-	 * 
-	 * 
-	 * setLoading(true)
-	 *  * Active un état "chargement en cours"
-	 *  * Sert à désactiver le bouton et afficher "Patiente..." au lieu de " se connecter ".
-	 * 
-	 * 
-	 * setError(null);
-	 *  * Efface les anciens messages d'erreur avant une nouvelle tentative.
-	 * 
-	 * 
-	 * const path = isLogin ? '/auth/login' : 'auth/register';
-	 *  * Choisit l'URL du backend en fonction du mode:
-	 *      * Si isLogin = true -> path = 'auth/login'
-	 *      * sinon -> path = 'auth/register'
-	 * 
-	 * const body = ...
-	 *  * Crée le contenu (JSON) qui sera envoyé au serveur:
-	 *      * si connexion -> {email, password}
-	 *      * si inscription -> {name, email, password}
-	 *  * name.trim() -> supprime les espaces au début/fin pour éviter un nom comme " "
-	 * 
-	 * 
-	 * const res = await fetch(`${apiBaseUrl}${path}`, {
-	 *      method: 'POST',
-	 *      header: {'Content-Type': 'application/json'},
-	 *      body: JSON.stringify(body),
-	 *  });
-	 *  * ${apiBaseUrl}${path} : construit l'URL complète en rapport avec les state/hook précédent.
-	 *  * method: 'POST' : envoie des données (connexion/inscription).
-	 *  * headers: dit au serveur que le corps est du JSON.
-	 *  * body: JSON.stringify(body) : convertit l'objet {email, password} en txt JSON.
-	 * 
-	 * 
-	 * cont data: AuthResponse = await res.json();
-	 *  * Transforer la réponse JSON en objet javascript
-	 *  * On précise son type (AuthResponse) -> ca contient accessToken, refreshToken, user et message.
-	 * 
-	 *
-	 * if(!res.ok){
-	 *  const msg = (data && (data.message as string)) || 'Une erreur est survenue';
-	 *  setError(msg);
-	 *  return;
-	 * }
-	 *  * res.ok est true si le serveur a répondu avec un code 220(succès).
-	 *  * Si c'est un faux -> on récupère data.message ou on affiche un message par défaut.
-	 *  * setError(msg) -> ca mettre le message d'erreur à l'écran
-	 *  * return -> on arrête la fonction.
-	 * 
-	 * 
-	 * onAuthSucces?.(data);
-	 *  Alert.alert('Succès', isLogin ? 'Connexion Réussi' : 'Compte créé !');
-	 *  setPassword('');
-	 *  setConfirm('');
-	 *      *onAuthSuccess?.data : si le prop onAuthSuccès a été fournie par le parent -> on l'appelle avec les données du serveur (par ex. pour enreistrer les tokens ou rediriger vers la page principale).
-	 *      *Alert.alert(...) : affiche une boîte de dialogue avec "Succès".
-	 *      *setPassword('') et setConfirm('') : on vide les champs sensibles(par sécurité).
-	 * 
-	 * 
-	 * } catch(e: any){
-	 *      setError(e?message ?? 'Impossible de contacter le server.);
-	 * }
-	 *      * si la requête échoue (par ex: serveur éteint, pas de wifi,...)On arrive ici.
-	 *      * On affiche une erreur claire à l'utilisateur.
-	 * 
-	 * 
-	 *  finally( setLoading(flase);}
-	 *      *Qu'il y ait succès ou erreur -> on remet loading à false pour réactiver le bouton.
-	*/
-	const handleSubmit = useCallback(async () => {
-		try {
-			setLoading(true);       // Active le spinner / l'état de chargement
-			setError(null);         // Réinitialise les erreurs avant la soumission
-	
-			// Prépare le corps de la requête
-			const body = isLogin
-				? { email, password }                     // Si login : on envoie email + password
-				: { name: name.trim(), email, password }; // Sinon : nom + email + password
-	
-			// Envoi de la requête via Axios
-			const { data } = await api.post<AuthResponse>(
-				isLogin ? '/auth/login' : '/auth/register', 
-				body
+	const codeRef = useRef<TextInput>(null);
+	const backupCodeRef = useRef<TextInput>(null);
+	const otpRef = useRef<OtpInputHandle>(null);
+	const extraRefs = useRef<Record<string, TextInput | null>>({});
+	const errorRef = useRef<Text>(null);
+
+	// Touche "suivant" à l'inscription : suit registerOrder (champs supplémentaires compris), le dernier champ envoie.
+	const inputFor = (key: string): TextInput | null =>
+		key === 'name' ? nameRef.current
+		: key === 'email' ? emailRef.current
+		: key === 'code' ? codeRef.current
+		: key === 'password' ? passwordRef.current
+		: key === 'confirm' ? confirmRef.current
+		: extraRefs.current[key] ?? null;
+	const isLastRegisterField = (key: string) => registerOrder[registerOrder.length - 1] === key;
+	const focusNextRegisterField = (key: string) => {
+		const next = registerOrder[registerOrder.indexOf(key) + 1];
+		if (next) inputFor(next)?.focus();
+		else onSubmit();
+	};
+
+	// Envoi refusé par la validation : focus (clavier + lecteur d'écran) sur le premier champ à corriger.
+	// Après le rendu qui affiche les erreurs, pour que le lecteur d'écran lise le champ avec son erreur.
+	const [focusRequest, setFocusRequest] = useState<string | null>(null);
+	const onSubmit = () => {
+		if (submit() === 'invalid' && invalidFields.length > 0) setFocusRequest(invalidFields[0]);
+	};
+	useEffect(() => {
+		if (!focusRequest) return;
+		setFocusRequest(null);
+		if (focusRequest !== 'otp') focusField(inputFor(focusRequest));
+		else if (mfa.backupMode) focusField(backupCodeRef.current);
+		else otpRef.current?.focus();
+	}, [focusRequest]);
+
+	// Erreur du serveur : le lecteur d'écran passe du bouton au message.
+	useEffect(() => {
+		if (error) focusForAccessibility(errorRef.current);
+	}, [error]);
+
+	// Vérifications d'accessibilité de tous les modes (libellés, traductions...), en développement seulement
+	useEffect(() => {
+		if (!__DEV__) return;
+		const issues = auditAuthScreen({
+			t,
+			extraFields: options.extraFields,
+			consents: options.consents,
+			oauthProviders: options.oauthProviders,
+			challenge: options.challenge,
+		});
+		if (issues.length > 0) console.warn(`AuthScreen accessibility:\n- ${issues.join('\n- ')}`);
+	}, [t, options.extraFields, options.consents, options.oauthProviders, options.challenge]);
+
+	// Champs supplémentaires regroupés sous le champ fixe qui les précède (ex: { email: [phone], confirm: [referral] })
+	const extrasAfter = useMemo(() => {
+		const groups: Record<string, ExtraField[]> = {};
+		let anchor = 'name';
+		registerOrder.forEach(key => {
+			const field = extraFields.find(extra => extra.key === key);
+			if (!field) anchor = key;
+			else (groups[anchor] ??= []).push(field);
+		});
+		return groups;
+	}, [registerOrder, extraFields]);
+
+	// Textes selon l'étape : préfixe des clés de traduction (ex: 'login' -> 'login.title', 'login.subtitle'...)
+	const resetStep = reset.step;
+	const mfaChallenge = mfa.challenge;
+	const pendingVerification = verification.pending;
+	const title = t(`${screen}.title`);
+	// Vérification : le sous-titre dit où chercher le code (application, SMS/email envoyé à..., ou code de secours)
+	const subtitle = mfaChallenge && mfa.backupMode
+		? t('mfa.backupSubtitle')
+		: mfaChallenge && mfaChallenge.method !== 'totp' && mfaChallenge.destination
+		? t('mfa.subtitleSent', { length: OTP_LENGTH, destination: mfaChallenge.destination })
+		: t(`${screen}.subtitle`, { length: OTP_LENGTH, email: pendingVerification?.email ?? passwordless.email ?? '' });
+	const submitLabel = t(submitLabelKey(screen));
+	const submitHint = t(`${screen}.submitHint`);
+	// Interface du fournisseur anti-robots, quand l'épreuve est demandée
+	const ChallengeUI = challenge.provider?.Challenge;
+
+	// Droite à gauche (si la langue le demande et que React Native ne l'a pas déjà fait)
+	const rowDirection = flipRow ? styles.rowReversed : null;
+	const textDirection = flipRow ? styles.textEnd : null;
+
+	// Surcharges de style communes à tous les champs (FormField / PasswordInput)
+	const fieldStyles = {
+		containerStyle: overrides.field,
+		labelStyle: overrides.label,
+		inputStyle: overrides.input,
+		errorStyle: overrides.fieldError,
+		locale,
+	};
+
+	// Champs supplémentaires placés après `anchor` (même présentation que les champs fixes)
+	const renderExtraFields = (anchor: string) =>
+		(extrasAfter[anchor] ?? []).map(field => {
+			const binding = fields.extra[field.key];
+			if (!binding?.visible) return null;
+			const input = EXTRA_FIELD_INPUT[field.type ?? 'text'];
+			return (
+				<FormField
+					key={field.key}
+					ref={(element) => {
+						extraRefs.current[field.key] = element;
+					}}
+					{...fieldStyles}
+					label={field.label}
+					error={binding.error}
+					placeholder={field.placeholder}
+					value={binding.value}
+					onChangeText={binding.onChangeText}
+					{...input}
+					keyboardType={field.keyboardType ?? input.keyboardType}
+					returnKeyType={isLastRegisterField(field.key) ? 'done' : 'next'}
+					onSubmitEditing={() => focusNextRegisterField(field.key)}
+					onBlur={binding.onBlur}
+					accessibilityLabel={field.accessibilityLabel ?? field.label}
+				/>
 			);
-	
-			// Vérifie si le backend a renvoyé une erreur
-			if (!data || data.message) {
-				setError(data?.message || 'Une erreur est survenue.');
-				return;
-			}
-	
-			// Si tout va bien : callback et message de succès
-			onAuthSuccess?.(data);
-			Alert.alert("Succès", isLogin ? "Connexion réussie" : "Compte créé !");
-			
-			// Reset des champs de mot de passe
-			setPassword("");
-			setConfirm("");
-		} catch (e: any) {
-			// Gestion des erreurs réseau ou serveur
-			setError(e?.message ?? "Impossible de contacter le serveur.");
-		} finally {
-			setLoading(false);  // Désactive le spinner dans tous les cas
-		}
-	}, [isLogin, email, password, name, confirm, onAuthSuccess]);
+		});
 
 	/**
 	 * Le return(...) construit l'interface utilisateur de l'écran d'authentification. Il décrit une hiérarchie de composant natifs qui:
@@ -486,193 +514,426 @@ const styles = StyleSheet.create({
 	}
 */
 return (
-    <SafeAreaView style={{ flex: 1, backgroundColor: "#fff" }}>
+    <SafeAreaView style={[styles.screen, overrides.screen]}>
       <KeyboardAvoidingView
         style={{ flex: 1 }}
         behavior={Platform.OS === "ios" ? "padding" : undefined}
       >
         <ScrollView
-          contentContainerStyle={styles.container}
+          contentContainerStyle={[styles.container, overrides.container]}
           keyboardShouldPersistTaps="handled"
         >
+          {/* HORS LIGNE */}
+          {!online && (
+            <View style={styles.offlineBanner} accessibilityRole="alert" accessibilityLiveRegion="polite">
+              <Text style={styles.offlineText}>{t('network.offline')}</Text>
+            </View>
+          )}
+
           {/* TITRES */}
-          <Text style={styles.title} accessibilityRole="header">
-            {isLogin ? "Se connecter" : "Créer un compte"}
-          </Text>
-          <Text style={styles.subtitle}>
-            {isLogin
-              ? "Ravi de te revoir 👋"
-              : "Bienvenue ! Crée ton compte pour commencer."}
+          <Text style={[styles.title, overrides.title]} accessibilityRole="header">
+            {title}
           </Text>
+          <Text style={[styles.subtitle, overrides.subtitle]}>{subtitle}</Text>
 
           {/* NOM (seulement en mode Register) */}
-          {!isLogin && (
-            <View style={styles.field}>
-              <Text style={styles.label}>Nom</Text>
-              <TextInput
-                placeholder="Ton Nom"
-                value={name}
-                onChangeText={setName}
-                style={styles.input}
-                autoCapitalize="words"
-                returnKeyType="next"
-                onSubmitEditing={() => emailRef.current?.focus()}
-                accessibilityLabel="Champ nom"
+          {fields.name.visible && (
+            <FormField
+              {...fieldStyles}
+              ref={nameRef}
+              label={t('field.name.label')}
+              error={fieldErrors.name}
+              placeholder={t('field.name.placeholder')}
+              value={fields.name.value}
+              onChangeText={fields.name.onChangeText}
+              autoCapitalize="words"
+              returnKeyType="next"
+              onSubmitEditing={() => focusNextRegisterField('name')}
+              onBlur={fields.name.onBlur}
+              accessibilityLabel={t('field.name.a11y')}
+            />
+          )}
+          {renderExtraFields('name')}
+
+          {/* CODE REÇU : vérification en deux étapes (ou code de secours), connexion sans mot de passe */}
+          {fields.otp.visible && mfa.backupMode && (
+            <FormField
+              {...fieldStyles}
+              ref={backupCodeRef}
+              label={t('field.backupCode.label')}
+              error={fieldErrors.otp}
+              value={fields.otp.value}
+              onChangeText={fields.otp.onChangeText}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={onSubmit}
+              onBlur={fields.otp.onBlur}
+              accessibilityLabel={t('field.backupCode.a11y')}
+            />
+          )}
+          {fields.otp.visible && !mfa.backupMode && (
+            <View style={[styles.field, overrides.field]}>
+              <OtpInput
+                ref={otpRef}
+                value={fields.otp.value}
+                onChangeText={fields.otp.onChangeText}
+                onComplete={submitOtp}
+                length={OTP_LENGTH}
+                autoFocus
+                invalid={!!fieldErrors.otp}
+                accessibilityLabel={fieldErrors.otp
+                  ? t('a11y.fieldError', { label: t('field.otp.a11y', { length: OTP_LENGTH }), error: fieldErrors.otp })
+                  : t('field.otp.a11y', { length: OTP_LENGTH })}
               />
+              {fieldErrors.otp && (
+                <Text
+                  style={[styles.fieldError, textDirection, overrides.fieldError]}
+                  accessibilityLiveRegion="polite"
+                  accessibilityElementsHidden
+                >
+                  {fieldErrors.otp}
+                </Text>
+              )}
             </View>
           )}
 
           {/* EMAIL */}
-          <View style={styles.field}>
-            <Text style={styles.label}>Email</Text>
-            <TextInput
+          {fields.email.visible && (
+            <FormField
+              {...fieldStyles}
               ref={emailRef}
-              placeholder="exemple@gmail.com"
-              value={email}
-              onChangeText={setEmail}
-              style={styles.input}
+              label={t('field.email.label')}
+              error={fieldErrors.email}
+              placeholder={t('field.email.placeholder')}
+              value={fields.email.value}
+              onChangeText={fields.email.onChangeText}
               autoCapitalize="none"
               autoCorrect={false}
               keyboardType="email-address"
+              returnKeyType={resetStep === 'request' || screen === 'passwordless.request' ? "done" : "next"}
+              onSubmitEditing={() =>
+                resetStep === 'request' || screen === 'passwordless.request'
+                  ? onSubmit()
+                  : resetStep === 'reset'
+                  ? codeRef.current?.focus()
+                  : screen === 'register'
+                  ? focusNextRegisterField('email')
+                  : passwordRef.current?.focus()
+              }
+              onBlur={fields.email.onBlur}
+              accessibilityLabel={t('field.email.a11y')}
+            />
+          )}
+          {renderExtraFields('email')}
+
+          {/* CODE DE RÉINITIALISATION (étape reset) */}
+          {fields.code.visible && (
+            <FormField
+              {...fieldStyles}
+              ref={codeRef}
+              label={t('field.code.label')}
+              error={fieldErrors.code}
+              placeholder={t('field.code.placeholder')}
+              value={fields.code.value}
+              onChangeText={fields.code.onChangeText}
+              autoCapitalize="none"
+              autoCorrect={false}
+              textContentType="oneTimeCode"
               returnKeyType="next"
               onSubmitEditing={() => passwordRef.current?.focus()}
-              accessibilityLabel="Champ email"
+              onBlur={fields.code.onBlur}
+              accessibilityLabel={t('field.code.a11y')}
             />
-          </View>
+          )}
 
           {/* PASSWORD */}
-          <View style={styles.field}>
-            <Text style={styles.label}>Mot de passe</Text>
-            <TextInput
+          {fields.password.visible && (
+            <PasswordInput
+              {...fieldStyles}
               ref={passwordRef}
-              placeholder="********"
-              value={password}
-              onChangeText={setPassword}
-              style={styles.input}
-              secureTextEntry
-              returnKeyType={isLogin ? "done" : "next"}
+              label={resetStep === 'reset' ? t('field.password.newLabel') : t('field.password.label')}
+              error={fieldErrors.password}
+              placeholder={t('field.password.placeholder')}
+              value={fields.password.value}
+              onChangeText={fields.password.onChangeText}
+              returnKeyType={fields.confirm.visible ? "next" : "done"}
               onSubmitEditing={() =>
-                isLogin ? handleSubmit() : confirmRef.current?.focus()
+                screen === 'register'
+                  ? focusNextRegisterField('password')
+                  : fields.confirm.visible ? confirmRef.current?.focus() : onSubmit()
               }
-              accessibilityLabel="Champ mot de passe"
-            />
-          </View>
+              onBlur={fields.password.onBlur}
+              accessibilityLabel={t('field.password.a11y')}
+            >
+              {showStrength && fields.password.value.length > 0 && (
+                <PasswordStrengthMeter
+                  score={passwordStrength(fields.password.value, passwordRuleResults)}
+                  rules={passwordRuleResults}
+                  locale={locale}
+                />
+              )}
+            </PasswordInput>
+          )}
+          {renderExtraFields('password')}
 
           {/* CONFIRM PASSWORD */}
-          {!isLogin && (
-            <View style={styles.field}>
-              <Text style={styles.label}>Confirmer le mot de passe</Text>
-              <TextInput
-                ref={confirmRef}
-                placeholder="********"
-                value={confirm}
-                onChangeText={setConfirm}
-                style={styles.input}
-                secureTextEntry
-                returnKeyType="done"
-                onSubmitEditing={handleSubmit}
-                accessibilityLabel="Champ confirmation mot de passe"
+          {fields.confirm.visible && (
+            <PasswordInput
+              {...fieldStyles}
+              ref={confirmRef}
+              label={t('field.confirm.label')}
+              error={fieldErrors.confirm}
+              placeholder={t('field.password.placeholder')}
+              value={fields.confirm.value}
+              onChangeText={fields.confirm.onChangeText}
+              returnKeyType={screen === 'register' && !isLastRegisterField('confirm') ? "next" : "done"}
+              onSubmitEditing={() => (screen === 'register' ? focusNextRegisterField('confirm') : onSubmit())}
+              onBlur={fields.confirm.onBlur}
+              accessibilityLabel={t('field.confirm.a11y')}
+            />
+          )}
+          {renderExtraFields('confirm')}
+
+          {/* CONSENTEMENTS (inscription) */}
+          {screen === 'register' && consents.items.length > 0 && (
+            <View style={[styles.field, overrides.field]}>
+              {consents.items.map(item => (
+                <ConsentCheckbox
+                  key={item.id}
+                  item={item}
+                  checked={!!consents.accepted[item.id]}
+                  onToggle={() => consents.toggle(item.id)}
+                  locale={locale}
+                />
+              ))}
+            </View>
+          )}
+
+          {/* VÉRIFICATION ANTI-ROBOTS : inscription, login après plusieurs échecs (voir challenge.ts) */}
+          {ChallengeUI && (
+            <View style={[styles.field, overrides.field]}>
+              <Text style={[styles.challengeTitle, textDirection]} accessibilityRole="header">{t('challenge.title')}</Text>
+              <Text style={[styles.challengeText, textDirection]}>{t('challenge.subtitle')}</Text>
+              <ChallengeUI
+                action={challenge.action}
+                onToken={challenge.onToken}
+                onError={challenge.onError}
+                onCancel={challenge.onCancel}
+                locale={locale}
               />
             </View>
           )}
 
           {/* ERREUR */}
           {error && (
-            <Text
-              style={styles.error}
-              accessibilityRole="alert"
-              accessibilityLiveRegion="polite"
-            >
+            <Text ref={errorRef} style={[styles.error, overrides.error]} accessibilityRole="alert">
               {error}
             </Text>
           )}
 
+          {/* COMPTE TEMPORAIREMENT BLOQUÉ */}
+          {throttle.active && throttle.locked && (
+            <View style={styles.lockBanner} accessibilityRole="alert" accessibilityLiveRegion="polite">
+              <Text style={styles.lockTitle}>{t('throttle.lockedTitle')}</Text>
+              <Text style={styles.lockText}>{t('throttle.lockedMessage', { time: throttleWait })}</Text>
+            </View>
+          )}
+
           {/* SUBMIT BUTTON */}
-          <Pressable
-            style={[
-              styles.button,
-              !canSubmit || loading ? styles.buttonDisabled : null,
-            ]}
-            onPress={handleSubmit}
-            disabled={!canSubmit || loading}
-            accessibilityRole="button"
-            accessibilityHint={
-              isLogin
-                ? "Valider pour se connecter"
-                : "Valider pour créer un compte"
+          {/* Reste cliquable si le formulaire est invalide (dimmed) : le clic affiche les erreurs sous les champs
+              et place le focus sur le premier à corriger.
+              Bloqué en revanche pendant le délai entre deux tentatives, hors ligne, et sans les cases obligatoires
+              (la raison est lue par le lecteur d'écran). */}
+          <PrimaryButton
+            title={throttle.active ? t('throttle.retryIn', { time: throttleWait }) : submitLabel}
+            onPress={onSubmit}
+            loading={loading}
+            disabled={throttle.active || !online || consents.missing}
+            dimmed={!canSubmit}
+            disabledReason={
+              !online ? t('network.offline')
+              : throttle.active && throttle.locked ? t('throttle.lockedMessage', { time: throttleWait })
+              : throttle.active ? t('throttle.retryIn', { time: throttleWait })
+              : consents.missing ? t('consent.missing')
+              : undefined
             }
-          >
-            {loading ? (
-              <ActivityIndicator color="#fff" />
-            ) : (
-              <Text style={styles.buttonText}>
-                {isLogin ? "Se connecter" : "Créer un compte"}
-              </Text>
-            )}
-          </Pressable>
+            accessibilityHint={invalidFields.length > 0 ? t('a11y.formHasErrors') : submitHint}
+            style={overrides.button}
+            textStyle={overrides.buttonText}
+          />
+
+          {/* VÉRIFICATION EN DEUX ÉTAPES : renvoi du code, code de secours, retour */}
+          {mfaChallenge && mfaChallenge.method !== 'totp' && !mfa.backupMode && (
+            <InlineLink
+              title={mfa.resendIn > 0 ? t('mfa.resendIn', { seconds: mfa.resendIn }) : t('mfa.resend')}
+              onPress={mfa.resend}
+              disabled={mfa.resendIn > 0}
+              accessibilityRole="button"
+              style={overrides.link}
+            />
+          )}
+          {mfaChallenge && (
+            <InlineLink
+              title={mfa.backupMode ? t('mfa.useOtp') : t('mfa.useBackup')}
+              onPress={mfa.toggleBackupMode}
+              accessibilityRole="button"
+              style={overrides.link}
+            />
+          )}
+          {mfaChallenge && <InlineLink title={t('reset.backToLogin')} onPress={mfa.cancel} style={overrides.link} />}
+
+          {/* CONFIRMATION DE L'EMAIL : renvoi de l'email, retour */}
+          {pendingVerification && (
+            <InlineLink
+              title={verification.resendIn > 0 ? t('verify.resendIn', { seconds: verification.resendIn }) : t('verify.resend')}
+              onPress={verification.resend}
+              disabled={verification.resendIn > 0}
+              accessibilityRole="button"
+              style={overrides.link}
+            />
+          )}
+          {pendingVerification && (
+            <InlineLink title={t('reset.backToLogin')} onPress={verification.cancel} style={overrides.link} />
+          )}
 
           {/* PASSWORD RESET */}
-          {isLogin && (
+          {screen === 'login' && (
+            <InlineLink title={t('login.forgotPassword')} onPress={() => reset.open('request')} style={overrides.link} />
+          )}
+
+          {/* CONNEXION SANS MOT DE PASSE : choix du mode, renvoi du code, autre adresse */}
+          {screen === 'login' && (
+            <InlineLink title={t('passwordless.useCode')} onPress={() => setMode('passwordless')} style={overrides.link} />
+          )}
+          {screen === 'passwordless.request' && (
+            <InlineLink title={t('passwordless.usePassword')} onPress={() => setMode('login')} style={overrides.link} />
+          )}
+          {screen === 'passwordless.code' && (
+            <InlineLink
+              title={passwordless.resendIn > 0
+                ? t('passwordless.resendIn', { seconds: passwordless.resendIn })
+                : t('passwordless.resend')}
+              onPress={passwordless.resend}
+              disabled={passwordless.resendIn > 0}
+              accessibilityRole="button"
+              style={overrides.link}
+            />
+          )}
+          {screen === 'passwordless.code' && (
+            <InlineLink title={t('passwordless.changeEmail')} onPress={passwordless.cancel} style={overrides.link} />
+          )}
+
+          {/* PARCOURS RESET : code déjà reçu / retour */}
+          {resetStep === 'request' && (
+            <InlineLink title={t('reset.haveCode')} onPress={() => reset.open('reset')} style={overrides.link} />
+          )}
+          {resetStep && <InlineLink title={t('reset.backToLogin')} onPress={reset.close} style={overrides.link} />}
+
+          {/* FOURNISSEURS D'IDENTITÉ (Google, Apple...) */}
+          {oauth.providers.length > 0 && (
+            <View style={[styles.dividerRow, rowDirection]}>
+              <View style={styles.dividerLine} />
+              <Text style={styles.dividerText}>{t('oauth.divider')}</Text>
+              <View style={styles.dividerLine} />
+            </View>
+          )}
+          {oauth.providers.map(provider => (
             <Pressable
-              onPress={() =>
-                Alert.alert("Mot de passe", "TODO: lien vers réinitialisation")
-              }
-              accessibilityRole="link"
+              key={provider.id}
+              style={[
+                styles.providerButton,
+                provider.color ? { backgroundColor: provider.color, borderColor: provider.color } : null,
+                loading || throttle.active || !online ? styles.providerButtonDisabled : null,
+              ]}
+              onPress={() => oauth.signIn(provider.id)}
+              disabled={loading || throttle.active || !online}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: loading || throttle.active || !online }}
+              accessibilityLabel={t('oauth.continueWith', { provider: provider.label })}
             >
-              <Text style={styles.link}>Mot de passe oublié ?</Text>
+              <Text style={[styles.providerText, provider.textColor ? { color: provider.textColor } : null]}>
+                {t('oauth.continueWith', { provider: provider.label })}
+              </Text>
             </Pressable>
-          )}
+          ))}
 
           {/* SWITCH LOGIN/REGISTER */}
-          <View style={styles.switchRow}>
-            <Text style={styles.switchText}>
-              {isLogin ? "Pas encore de compte ?" : "Déjà inscrit ?"}
-            </Text>
-            <Pressable onPress={switchMode} accessibilityRole="button">
-              <Text style={styles.switchLink}>
-                {isLogin ? "Créer un compte" : "Se connecter"}
+          {(screen === 'login' || screen === 'register' || screen === 'passwordless.request') && (
+            <View style={[styles.switchRow, rowDirection]}>
+              <Text style={[styles.switchText, flipRow ? styles.switchTextReversed : null, overrides.switchText]}>
+                {mode === 'register' ? t('switch.toLoginText') : t('switch.toRegisterText')}
               </Text>
-            </Pressable>
-          </View>
+              <InlineLink
+                title={mode === 'register' ? t('switch.toLoginLink') : t('switch.toRegisterLink')}
+                onPress={() => setMode(mode === 'register' ? 'login' : 'register')}
+                accessibilityRole="button"
+                style={[styles.switchLink, overrides.switchLink]}
+              />
+            </View>
+          )}
         </ScrollView>
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
+// Styles construits à partir du thème (voir theme.ts). Les valeurs d'origine sont devenues les tokens du lightTheme.
+const createStyles = ({ colors, radii, spacing, typography }: Theme) => StyleSheet.create({
+  screen: { flex: 1, backgroundColor: colors.background },
   container: {
-    padding: 20,
+    padding: spacing.lg,
     flexGrow: 1,
     justifyContent: "center",
   },
-  title: { fontSize: 24, fontWeight: "bold", marginBottom: 8, textAlign: "center" },
-  subtitle: { fontSize: 16, color: "#666", marginBottom: 20, textAlign: "center" },
-  field: { marginBottom: 15 },
-  label: { fontSize: 14, fontWeight: "500", marginBottom: 5 },
-  input: {
+  title: { ...typography.title, color: colors.text, marginBottom: spacing.sm, textAlign: "center" },
+  subtitle: { ...typography.subtitle, color: colors.textMuted, marginBottom: spacing.lg, textAlign: "center" },
+  field: { marginBottom: spacing.md },
+  fieldError: { ...typography.caption, color: colors.danger, marginTop: spacing.xs },
+  challengeTitle: { ...typography.label, color: colors.text, marginBottom: spacing.xs },
+  challengeText: { ...typography.caption, color: colors.textMuted, marginBottom: spacing.sm },
+  error: { color: colors.danger, marginBottom: spacing.md, textAlign: "center" },
+  offlineBanner: {
+    backgroundColor: colors.warning,
+    borderRadius: radii.md,
+    padding: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  offlineText: { color: colors.onPrimary, textAlign: "center" },
+  lockBanner: {
     borderWidth: 1,
-    borderColor: "#ccc",
-    borderRadius: 8,
-    padding: 12,
-    fontSize: 16,
+    borderColor: colors.warning,
+    borderRadius: radii.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
   },
-  error: { color: "red", marginBottom: 15, textAlign: "center" },
-  button: {
-    backgroundColor: "#007bff",
-    paddingVertical: 14,
-    borderRadius: 8,
+  lockTitle: { ...typography.label, color: colors.warning, marginBottom: spacing.xs, textAlign: "center" },
+  lockText: { color: colors.text, textAlign: "center" },
+  dividerRow: { flexDirection: "row", alignItems: "center", marginVertical: spacing.md },
+  dividerLine: { flex: 1, height: 1, backgroundColor: colors.border },
+  dividerText: { ...typography.caption, color: colors.textMuted, marginHorizontal: spacing.sm },
+  providerButton: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    paddingVertical: 12,
+    borderRadius: radii.md,
     alignItems: "center",
-    marginVertical: 10,
+    marginBottom: spacing.sm,
   },
-  buttonDisabled: { backgroundColor: "#aaa" },
-  buttonText: { color: "#fff", fontSize: 16, fontWeight: "600" },
-  link: { color: "#007bff", marginTop: 10, textAlign: "center" },
+  providerButtonDisabled: { opacity: 0.6 },
+  providerText: { ...typography.button, color: colors.text },
+  // Passe à la ligne avec de grands textes (réglages du téléphone)
   switchRow: {
     flexDirection: "row",
+    flexWrap: "wrap",
     justifyContent: "center",
-    marginTop: 20,
+    marginTop: spacing.lg,
   },
-  switchText: { marginRight: 5 },
-  switchLink: { color: "#007bff", fontWeight: "600" },
-});
\ No newline at end of file
+  switchText: { color: colors.text, marginRight: 5 },
+  switchTextReversed: { marginRight: 0, marginLeft: 5 },
+  rowReversed: { flexDirection: "row-reverse" },
+  textEnd: { textAlign: "right" },
+  switchLink: { fontWeight: "600", marginTop: 0 },
+});
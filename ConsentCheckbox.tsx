@@ -0,0 +1,84 @@
+// ConsentCheckbox.tsx
+// Case à cocher d'un consentement (conditions, confidentialité, newsletter...)
+// - le texte et les liens viennent de la config (voir consents.ts)
+// - les liens s'ouvrent dans le navigateur sans cocher la case
+
+import React from 'react';
+import { Linking, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from './i18n';
+import { useTheme } from './ThemeProvider';
+import type { ConsentItem } from './consents';
+import { MAX_FIXED_FONT_SCALE, useFontScale } from './accessibility';
+
+type Props = {
+	item: ConsentItem;
+	checked: boolean;
+	onToggle: () => void;
+	// Langue à utiliser (sinon celle de l'I18nProvider).
+	locale?: string;
+};
+
+export default function ConsentCheckbox({ item, checked, onToggle, locale }: Props) {
+	const { t, flipRow } = useTranslation(locale);
+	const { colors, radii } = useTheme();
+	// Grands textes (réglages du téléphone) : la case et l'interligne grandissent avec le texte.
+	const fontScale = useFontScale();
+	const boxSize = BOX_SIZE * Math.min(fontScale, MAX_FIXED_FONT_SCALE);
+	const label = [item.label, ...(item.links ?? []).map(link => link.label)].join(' ');
+
+	return (
+		<View style={[styles.row, flipRow ? styles.rowReversed : null]}>
+			<Pressable
+				onPress={onToggle}
+				hitSlop={8}
+				accessibilityRole="checkbox"
+				accessibilityState={{ checked }}
+				accessibilityLabel={item.required ? t('consent.requiredA11y', { label }) : label}
+			>
+				<View
+					style={[
+						styles.box,
+						{ width: boxSize, height: boxSize },
+						{ borderColor: checked ? colors.primary : colors.border, borderRadius: radii.sm },
+						checked ? { backgroundColor: colors.primary } : null,
+					]}
+				>
+					{checked && (
+						<Text style={[styles.check, { color: colors.onPrimary }]} maxFontSizeMultiplier={MAX_FIXED_FONT_SCALE}>✓</Text>
+					)}
+				</View>
+			</Pressable>
+
+			<Text
+				style={[styles.text, { color: colors.text, lineHeight: LINE_HEIGHT * fontScale }, flipRow ? styles.textEnd : null]}
+				onPress={onToggle}
+			>
+				{item.label}
+				{(item.links ?? []).map(link => (
+					<Text
+						key={link.url}
+						style={{ color: colors.primary, textDecorationLine: 'underline' }}
+						onPress={() => Linking.openURL(link.url).catch(() => {})}
+						accessibilityRole="link"
+					>
+						{' '}
+						{link.label}
+					</Text>
+				))}
+				{item.required && <Text style={{ color: colors.danger }}> *</Text>}
+			</Text>
+		</View>
+	);
+}
+
+const BOX_SIZE = 22;
+const LINE_HEIGHT = 20;
+
+const styles = StyleSheet.create({
+	row: { flexDirection: 'row', alignItems: 'flex-start', marginBottom: 10 },
+	rowReversed: { flexDirection: 'row-reverse' },
+	box: { borderWidth: 2, alignItems: 'center', justifyContent: 'center', marginHorizontal: 8 },
+	check: { fontSize: 14, fontWeight: '700' },
+	text: { flex: 1 },
+	textEnd: { textAlign: 'right' },
+});
@@ -0,0 +1,115 @@
+// FormField.tsx
+// Champ de formulaire : label + TextInput + message d'erreur (+ indication facultative)
+// - l'apparence vient du thème (voir theme.ts), chaque partie reste surchargeable par style
+// - `accessory` : élément posé à droite dans le champ (ex: bouton "Afficher" de PasswordInput)
+// - `children` : affiché sous le champ (ex: jauge de robustesse)
+// - accessibilité : l'erreur fait partie du libellé lu sur le champ ("Champ email, erreur : Adresse email invalide."),
+//   et elle est annoncée dès qu'elle apparaît (Android) ; l'indication est lue comme accessibilityHint
+
+import React, { forwardRef, useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, View, type StyleProp, type TextInputProps, type TextStyle, type ViewStyle } from 'react-native';
+import { useTranslation } from './i18n';
+import { useTheme } from './ThemeProvider';
+import type { Theme } from './theme';
+
+export type FormFieldProps = Omit<TextInputProps, 'style'> & {
+	label: string;
+	error?: string;                       // message sous le champ (bordure rouge)
+	hint?: string;                        // indication neutre sous le champ (ex: "Verrouillage majuscules activé")
+	accessory?: React.ReactNode;
+	children?: React.ReactNode;
+	// Langue à utiliser pour le sens de lecture (sinon celle de l'I18nProvider).
+	locale?: string;
+	containerStyle?: StyleProp<ViewStyle>;
+	labelStyle?: StyleProp<TextStyle>;
+	inputStyle?: StyleProp<TextStyle>;
+	errorStyle?: StyleProp<TextStyle>;
+};
+
+const FormField = forwardRef<TextInput, FormFieldProps>(function FormField(
+	{ label, error, hint, accessory, children, locale, containerStyle, labelStyle, inputStyle, errorStyle, ...inputProps },
+	ref,
+) {
+	const { t, flipRow } = useTranslation(locale);
+	const theme = useTheme();
+	const styles = useMemo(() => createStyles(theme), [theme]);
+	const textDirection = flipRow ? styles.textEnd : null;
+
+	// Largeur réelle de l'accessoire : elle grandit avec la taille du texte choisie dans les réglages.
+	const [accessoryWidth, setAccessoryWidth] = useState(0);
+	const accessoryPadding = accessory ? accessoryWidth + theme.spacing.sm * 2 : undefined;
+
+	const a11yLabel = inputProps.accessibilityLabel ?? label;
+
+	return (
+		<View style={[styles.field, containerStyle]}>
+			<Text style={[styles.label, textDirection, labelStyle]}>{label}</Text>
+			<View style={styles.inputRow}>
+				<TextInput
+					ref={ref}
+					placeholderTextColor={theme.colors.placeholder}
+					{...inputProps}
+					accessibilityLabel={error ? t('a11y.fieldError', { label: a11yLabel, error }) : a11yLabel}
+					accessibilityHint={hint ?? inputProps.accessibilityHint}
+					style={[
+						styles.input,
+						textDirection,
+						accessory ? (flipRow ? { paddingLeft: accessoryPadding } : { paddingRight: accessoryPadding }) : null,
+						error ? styles.inputInvalid : null,
+						inputStyle,
+					]}
+				/>
+				{accessory && (
+					<View
+						style={[styles.accessory, flipRow ? styles.accessoryStart : null]}
+						onLayout={event => setAccessoryWidth(event.nativeEvent.layout.width)}
+					>
+						{accessory}
+					</View>
+				)}
+			</View>
+			{/* Déjà lus avec le champ : on ne les relit pas au balayage. L'erreur est annoncée à son apparition (Android). */}
+			{error && (
+				<Text
+					style={[styles.fieldError, textDirection, errorStyle]}
+					accessibilityLiveRegion="polite"
+					accessibilityElementsHidden
+				>
+					{error}
+				</Text>
+			)}
+			{hint && !error && (
+				<Text style={[styles.hint, textDirection]} importantForAccessibility="no" accessibilityElementsHidden>
+					{hint}
+				</Text>
+			)}
+			{children}
+		</View>
+	);
+});
+
+export default FormField;
+
+// Mêmes valeurs que les champs d'origine d'AuthScreen.
+const createStyles = ({ colors, radii, spacing, typography }: Theme) => StyleSheet.create({
+	field: { marginBottom: spacing.md },
+	label: { ...typography.label, color: colors.text, marginBottom: 5 },
+	inputRow: { flexDirection: 'row', alignItems: 'center' },
+	input: {
+		...typography.body,
+		flex: 1,
+		borderWidth: 1,
+		borderColor: colors.border,
+		backgroundColor: colors.surface,
+		color: colors.text,
+		borderRadius: radii.md,
+		padding: 12,
+	},
+	inputInvalid: { borderColor: colors.danger },
+	// Posé par-dessus le bord du champ (le texte du champ s'arrête avant, voir accessoryPadding)
+	accessory: { position: 'absolute', right: spacing.sm },
+	accessoryStart: { right: undefined, left: spacing.sm },
+	fieldError: { ...typography.caption, color: colors.danger, marginTop: spacing.xs },
+	hint: { ...typography.caption, color: colors.textMuted, marginTop: spacing.xs },
+	textEnd: { textAlign: 'right' },
+});
@@ -0,0 +1,36 @@
+// InlineLink.tsx
+// Lien texte cliquable (mot de passe oublié, renvoyer le code, changer de mode...)
+// - disabled : grisé et inactif (ex: "Renvoyer le code dans 30 s")
+// - role 'link' par défaut ; 'button' quand le lien déclenche une action plutôt qu'une navigation
+
+import React from 'react';
+import { Pressable, StyleSheet, Text, type AccessibilityRole, type StyleProp, type TextStyle } from 'react-native';
+import { useTheme } from './ThemeProvider';
+
+export type InlineLinkProps = {
+	title: string;
+	onPress: () => void;
+	disabled?: boolean;
+	accessibilityRole?: AccessibilityRole;
+	style?: StyleProp<TextStyle>;
+};
+
+export default function InlineLink({ title, onPress, disabled = false, accessibilityRole = 'link', style }: InlineLinkProps) {
+	const { colors } = useTheme();
+
+	return (
+		<Pressable
+			onPress={onPress}
+			disabled={disabled}
+			hitSlop={8}
+			accessibilityRole={accessibilityRole}
+			accessibilityState={disabled ? { disabled } : undefined}
+		>
+			<Text style={[styles.link, { color: disabled ? colors.textMuted : colors.primary }, style]}>{title}</Text>
+		</Pressable>
+	);
+}
+
+const styles = StyleSheet.create({
+	link: { marginTop: 10, textAlign: 'center' },
+});
@@ -0,0 +1,68 @@
+// LocalChallenge.tsx
+// Fournisseur anti-robots local (voir challenge.ts) : une case "Je ne suis pas un robot", sans réseau ni clé
+// - sert à construire et tester le parcours hors ligne ; le backend de dev accepte les tokens du fournisseur 'local'
+// - fail: true simule un fournisseur en panne (onError), delayMs le temps de vérification
+// - à remplacer en production par un vrai fournisseur (hCaptcha, Turnstile...)
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import InlineLink from './InlineLink';
+import { useTranslation } from './i18n';
+import { useTheme } from './ThemeProvider';
+import type { ChallengeProps, ChallengeProvider } from './challenge';
+
+export type LocalChallengeOptions = {
+	token?: string;      // token renvoyé (défaut : 'local-<horodatage>')
+	delayMs?: number;    // durée de la "vérification" (défaut : 600 ms)
+	fail?: boolean;      // l'épreuve échoue
+};
+
+export function createLocalChallenge({ token, delayMs = 600, fail = false }: LocalChallengeOptions = {}): ChallengeProvider {
+	function LocalChallenge({ onToken, onError, onCancel, locale }: ChallengeProps) {
+		const { t, flipRow } = useTranslation(locale);
+		const { colors, radii, spacing } = useTheme();
+		const [checking, setChecking] = useState(false);
+		const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+		useEffect(() => () => {
+			if (timer.current) clearTimeout(timer.current);
+		}, []);
+
+		const check = () => {
+			if (checking) return;
+			setChecking(true);
+			timer.current = setTimeout(() => {
+				if (fail) onError(new Error('Local challenge failed'));
+				else onToken(token ?? `local-${Date.now()}`);
+			}, delayMs);
+		};
+
+		return (
+			<View style={[styles.container, { borderColor: colors.border, borderRadius: radii.md, padding: spacing.md }]}>
+				<Pressable
+					onPress={check}
+					style={[styles.row, flipRow ? styles.rowReversed : null]}
+					accessibilityRole="checkbox"
+					accessibilityState={{ checked: checking, busy: checking }}
+					accessibilityLabel={t('challenge.local.label')}
+				>
+					<View style={[styles.box, { borderColor: colors.border, borderRadius: radii.sm }]}>
+						{checking && <ActivityIndicator size="small" color={colors.primary} />}
+					</View>
+					<Text style={[styles.text, { color: colors.text }]}>{t('challenge.local.label')}</Text>
+				</Pressable>
+				<InlineLink title={t('challenge.cancel')} onPress={onCancel} accessibilityRole="button" />
+			</View>
+		);
+	}
+
+	return { id: 'local', Challenge: LocalChallenge };
+}
+
+const styles = StyleSheet.create({
+	container: { borderWidth: 1, marginBottom: 10 },
+	row: { flexDirection: 'row', alignItems: 'center' },
+	rowReversed: { flexDirection: 'row-reverse' },
+	box: { width: 28, height: 28, borderWidth: 2, alignItems: 'center', justifyContent: 'center', marginHorizontal: 8 },
+	text: { flex: 1 },
+});
@@ -0,0 +1,96 @@
+// OtpInput.tsx
+// Saisie d'un code à usage unique en cases séparées (ex: 6 chiffres)
+// - un seul TextInput invisible reçoit la saisie : le coller et l'autoremplissage SMS (iOS/Android) fonctionnent
+// - les cases ne font qu'afficher les chiffres (taille du texte limitée : les cases ne s'agrandissent pas)
+
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { focusField, MAX_FIXED_FONT_SCALE } from './accessibility';
+
+type Props = {
+	value: string;
+	onChangeText: (code: string) => void;
+	// Appelé quand toutes les cases sont remplies (ex: envoyer le code automatiquement).
+	onComplete?: (code: string) => void;
+	length?: number;
+	autoFocus?: boolean;
+	invalid?: boolean;
+	accessibilityLabel?: string;
+};
+
+export type OtpInputHandle = {
+	focus: () => void;
+};
+
+const OtpInput = forwardRef<OtpInputHandle, Props>(function OtpInput(
+	{ value, onChangeText, onComplete, length = 6, autoFocus, invalid, accessibilityLabel },
+	ref,
+) {
+	const { colors, radii, typography } = useTheme();
+	const inputRef = useRef<TextInput>(null);
+	const [focused, setFocused] = useState(false);
+
+	useImperativeHandle(ref, () => ({ focus: () => focusField(inputRef.current) }), []);
+
+	// Garde uniquement les chiffres : un code collé "123 456" ou "Code : 123456" devient "123456".
+	const handleChange = (text: string) => {
+		const digits = text.replace(/\D/g, '').slice(0, length);
+		onChangeText(digits);
+		if (digits.length === length) onComplete?.(digits);
+	};
+
+	return (
+		<Pressable onPress={() => inputRef.current?.focus()} accessible={false}>
+			<View style={styles.row}>
+				{Array.from({ length }, (_, index) => {
+					const active = focused && index === Math.min(value.length, length - 1);
+					return (
+						<View
+							key={index}
+							style={[
+								styles.cell,
+								{ borderColor: colors.border, backgroundColor: colors.surface, borderRadius: radii.md },
+								active ? { borderColor: colors.primary } : null,
+								invalid ? { borderColor: colors.danger } : null,
+							]}
+						>
+							<Text
+								style={[styles.digit, typography.title, { color: colors.text }]}
+								maxFontSizeMultiplier={MAX_FIXED_FONT_SCALE}
+							>
+								{value[index] ?? ''}
+							</Text>
+						</View>
+					);
+				})}
+			</View>
+
+			{/* Champ réel, invisible, posé sur les cases */}
+			<TextInput
+				ref={inputRef}
+				value={value}
+				onChangeText={handleChange}
+				onFocus={() => setFocused(true)}
+				onBlur={() => setFocused(false)}
+				style={styles.hiddenInput}
+				keyboardType="number-pad"
+				textContentType="oneTimeCode"
+				autoComplete="sms-otp"
+				autoFocus={autoFocus}
+				caretHidden
+				accessibilityLabel={accessibilityLabel}
+			/>
+		</Pressable>
+	);
+});
+
+export default OtpInput;
+
+const styles = StyleSheet.create({
+	row: { flexDirection: 'row', justifyContent: 'space-between', gap: 8 },
+	cell: { flex: 1, aspectRatio: 0.85, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+	digit: { marginBottom: 0 },
+	// Pas de display:none (le champ ne pourrait plus recevoir le focus) : on le rend transparent par-dessus les cases.
+	hiddenInput: { ...StyleSheet.absoluteFillObject, opacity: 0.01, color: 'transparent' },
+});
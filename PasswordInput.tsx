@@ -0,0 +1,83 @@
+// PasswordInput.tsx
+// Champ mot de passe construit sur FormField
+// - bouton "Afficher / Masquer" dans le champ
+// - indication "Verrouillage majuscules ?" quand plusieurs lettres majuscules sont tapées à la suite
+//   (React Native ne donne pas l'état de la touche : c'est une estimation, d'où le point d'interrogation)
+// - indication quand un texte collé commence ou finit par un espace (souvent copié par erreur)
+
+import React, { forwardRef, useRef, useState } from 'react';
+import { Pressable, Text, type TextInput } from 'react-native';
+import FormField, { type FormFieldProps } from './FormField';
+import { useTranslation } from './i18n';
+import { useTheme } from './ThemeProvider';
+
+export type PasswordInputProps = Omit<FormFieldProps, 'secureTextEntry' | 'accessory'>;
+
+// Nombre de majuscules tapées à la suite avant d'afficher l'indication
+const CAPS_STREAK = 2;
+
+const isLetter = (char: string) => char.toLowerCase() !== char.toUpperCase();
+
+const PasswordInput = forwardRef<TextInput, PasswordInputProps>(function PasswordInput(
+	{ onChangeText, hint, locale, ...fieldProps },
+	ref,
+) {
+	const { t } = useTranslation(locale);
+	const { colors, typography } = useTheme();
+	const [visible, setVisible] = useState(false);
+	const [capsLock, setCapsLock] = useState(false);
+	const [pasteWarning, setPasteWarning] = useState(false);
+	const capsStreak = useRef(0);
+	const previous = useRef(''); // dernier texte vu (si le champ n'est pas contrôlé par `value`)
+
+	const handleChange = (text: string) => {
+		const added = text.length - (fieldProps.value ?? previous.current).length;
+		previous.current = text;
+
+		if (added === 1) {
+			// Une lettre tapée : majuscule -> la série continue, minuscule -> fin de la série.
+			const char = text[text.length - 1];
+			if (isLetter(char)) {
+				capsStreak.current = char === char.toUpperCase() ? capsStreak.current + 1 : 0;
+				setCapsLock(capsStreak.current >= CAPS_STREAK);
+			}
+			setPasteWarning(false);
+		} else if (added > 1) {
+			// Plusieurs caractères d'un coup : collé (ou gestionnaire de mots de passe).
+			setPasteWarning(text !== text.trim());
+		} else if (text.length === 0) {
+			capsStreak.current = 0;
+			setCapsLock(false);
+			setPasteWarning(false);
+		}
+		onChangeText?.(text);
+	};
+
+	const toggleLabel = visible ? t('password.hide') : t('password.show');
+	const ownHint = capsLock ? t('password.capsLock') : pasteWarning ? t('password.pastedSpaces') : undefined;
+
+	return (
+		<FormField
+			ref={ref}
+			{...fieldProps}
+			locale={locale}
+			onChangeText={handleChange}
+			secureTextEntry={!visible}
+			autoCapitalize="none"
+			autoCorrect={false}
+			hint={ownHint ?? hint}
+			accessory={
+				<Pressable
+					onPress={() => setVisible(prev => !prev)}
+					hitSlop={8}
+					accessibilityRole="button"
+					accessibilityLabel={toggleLabel}
+				>
+					<Text style={[typography.caption, { color: colors.primary, fontWeight: '600' }]}>{toggleLabel}</Text>
+				</Pressable>
+			}
+		/>
+	);
+});
+
+export default PasswordInput;
@@ -0,0 +1,71 @@
+// PasswordStrengthMeter.tsx
+// Jauge de robustesse + checklist des règles, affichée sous le champ mot de passe
+// - se met à jour à chaque frappe (les calculs viennent de passwordPolicy.ts)
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useTranslation } from './i18n';
+import { useTheme } from './ThemeProvider';
+import type { PasswordRuleResult, PasswordStrength } from './passwordPolicy';
+
+type Props = {
+	score: PasswordStrength;
+	rules: PasswordRuleResult[];
+	// Langue à utiliser (sinon celle de l'I18nProvider).
+	locale?: string;
+};
+
+export default function PasswordStrengthMeter({ score, rules, locale }: Props) {
+	const { t, flipRow } = useTranslation(locale);
+	const { colors } = useTheme();
+	// Couleur de la jauge selon le score (0 = rien de rempli).
+	const scoreColors = [colors.border, colors.danger, colors.warning, colors.success, colors.success];
+	const color = scoreColors[score];
+	const level = t(`strength.${score}`);
+	const align = flipRow ? styles.alignEnd : null;
+
+	return (
+		<View style={styles.container}>
+			{/* JAUGE : 4 segments, remplis selon le score */}
+			<View
+				style={[styles.bar, flipRow ? styles.barReversed : null]}
+				accessible
+				accessibilityRole="progressbar"
+				accessibilityLabel={t('strength.a11y', { level })}
+				accessibilityValue={{ min: 0, max: 4, now: score }}
+			>
+				{[1, 2, 3, 4].map(segment => (
+					<View
+						key={segment}
+						style={[styles.segment, { backgroundColor: segment <= score ? color : scoreColors[0] }]}
+					/>
+				))}
+			</View>
+			<Text style={[styles.label, align, { color }]}>{level}</Text>
+
+			{/* CHECKLIST DES RÈGLES */}
+			{rules.map(rule => {
+				const label = t(`passwordRule.${rule.id}`, rule.params);
+				return (
+					<Text
+						key={rule.id}
+						style={[styles.rule, align, { color: rule.passed ? colors.success : colors.textMuted }]}
+						accessibilityLabel={t(rule.passed ? 'passwordRule.passedA11y' : 'passwordRule.failedA11y', { rule: label })}
+					>
+						{rule.passed ? '✓' : '•'} {label}
+					</Text>
+				);
+			})}
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	container: { marginTop: 8 },
+	bar: { flexDirection: 'row', gap: 4 },
+	barReversed: { flexDirection: 'row-reverse' },
+	alignEnd: { textAlign: 'right' },
+	segment: { flex: 1, height: 4, borderRadius: 2 },
+	label: { fontSize: 12, marginTop: 4, marginBottom: 4 },
+	rule: { fontSize: 13, marginTop: 2 },
+});
@@ -0,0 +1,70 @@
+// PrimaryButton.tsx
+// Bouton principal d'un formulaire (couleur primary du thème)
+// - loading : spinner à la place du texte, bouton bloqué
+// - disabled : bouton bloqué et grisé
+// - dimmed : seulement grisé, reste cliquable (ex: formulaire invalide, le clic affiche les erreurs)
+// - disabledReason : lu par le lecteur d'écran à la place de accessibilityHint quand le bouton est désactivé
+
+import React, { useMemo } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, type StyleProp, type TextStyle, type ViewStyle } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import type { Theme } from './theme';
+
+export type PrimaryButtonProps = {
+	title: string;
+	onPress: () => void;
+	loading?: boolean;
+	disabled?: boolean;
+	dimmed?: boolean;
+	accessibilityHint?: string;
+	disabledReason?: string;     // ex: "Pas de connexion internet"
+	style?: StyleProp<ViewStyle>;
+	textStyle?: StyleProp<TextStyle>;
+};
+
+export default function PrimaryButton({
+	title,
+	onPress,
+	loading = false,
+	disabled = false,
+	dimmed = false,
+	accessibilityHint,
+	disabledReason,
+	style,
+	textStyle,
+}: PrimaryButtonProps) {
+	const theme = useTheme();
+	const styles = useMemo(() => createStyles(theme), [theme]);
+	const blocked = disabled || loading;
+
+	return (
+		<Pressable
+			style={[styles.button, blocked || dimmed ? styles.buttonDisabled : null, style]}
+			onPress={onPress}
+			disabled={blocked}
+			accessibilityRole="button"
+			accessibilityLabel={title}
+			accessibilityState={{ disabled: blocked, busy: loading }}
+			accessibilityHint={disabled && disabledReason ? disabledReason : accessibilityHint}
+		>
+			{loading ? (
+				<ActivityIndicator color={theme.colors.onPrimary} />
+			) : (
+				<Text style={[styles.buttonText, textStyle]}>{title}</Text>
+			)}
+		</Pressable>
+	);
+}
+
+// Mêmes valeurs que le bouton d'origine d'AuthScreen.
+const createStyles = ({ colors, radii, typography }: Theme) => StyleSheet.create({
+	button: {
+		backgroundColor: colors.primary,
+		paddingVertical: 14,
+		borderRadius: radii.md,
+		alignItems: 'center',
+		marginVertical: 10,
+	},
+	buttonDisabled: { backgroundColor: colors.disabled },
+	buttonText: { ...typography.button, color: colors.onPrimary },
+});
@@ -0,0 +1,35 @@
+// ThemeProvider.tsx
+// Fournit le thème aux composants
+// - suit le mode clair/sombre du système par défaut
+// - l'app peut forcer un mode, ou remplacer les presets par ses propres thèmes (couleurs de la marque)
+
+import React, { createContext, useContext } from 'react';
+import { useColorScheme } from 'react-native';
+import { darkTheme, lightTheme, type Theme } from './theme';
+
+export type ColorSchemePreference = 'system' | 'light' | 'dark';
+
+type Props = {
+	children: React.ReactNode;
+	// 'system' (défaut) : suit le réglage du téléphone.
+	colorScheme?: ColorSchemePreference;
+	// Thèmes à utiliser pour chaque mode (défaut : lightTheme / darkTheme).
+	light?: Theme;
+	dark?: Theme;
+};
+
+const ThemeContext = createContext<Theme | null>(null);
+
+export default function ThemeProvider({ children, colorScheme = 'system', light = lightTheme, dark = darkTheme }: Props) {
+	const system = useColorScheme();
+	const mode = colorScheme === 'system' ? system : colorScheme;
+
+	return <ThemeContext.Provider value={mode === 'dark' ? dark : light}>{children}</ThemeContext.Provider>;
+}
+
+// Thème courant. Sans <ThemeProvider>, on prend le preset qui correspond au mode du système.
+export function useTheme(): Theme {
+	const theme = useContext(ThemeContext);
+	const system = useColorScheme();
+	return theme ?? (system === 'dark' ? darkTheme : lightTheme);
+}
@@ -0,0 +1,35 @@
+// accessibility.test.ts
+// Les catalogues fournis (fr, en) couvrent tous les modes de l'écran : auditAuthScreen ne doit rien signaler.
+// Chaque langue est vérifiée seule : une clé absente de 'en' ne doit pas être masquée par le repli sur 'fr'.
+
+import { auditAuthScreen } from './accessibility';
+import { BUNDLED_CATALOGS, translate, type Translate } from './i18n';
+import type { ChallengeProvider } from './challenge';
+import type { ConsentItem } from './consents';
+import type { OAuthProvider } from './oauth';
+import type { ExtraField } from './registerFields';
+
+const extraFields: ExtraField[] = [{ key: 'phone', label: 'Phone', type: 'phone', after: 'email' }];
+const consents: ConsentItem[] = [
+	{ id: 'terms', label: 'I accept the terms', version: '2026-03', required: true, links: [{ label: 'Terms', url: 'https://example.com/terms' }] },
+];
+const oauthProviders: OAuthProvider[] = [
+	{ id: 'google', label: 'Google', authorizationEndpoint: 'https://example.com/authorize', clientId: 'id', redirectUri: 'myapp://oauth' },
+];
+const challenge: ChallengeProvider = { id: 'local', Challenge: () => null };
+
+describe('auditAuthScreen', () => {
+	it.each(['fr', 'en'])('ne signale rien avec le catalogue %s', locale => {
+		const catalogs = { [locale]: BUNDLED_CATALOGS[locale] };
+		const t: Translate = (key, params) => translate(catalogs, locale, key, params);
+
+		expect(auditAuthScreen({ t })).toEqual([]);
+		expect(auditAuthScreen({ t, extraFields, consents, oauthProviders, challenge })).toEqual([]);
+	});
+
+	it('signale une traduction manquante', () => {
+		const t: Translate = (key, params) => (key === 'verify.submit' ? key : translate(BUNDLED_CATALOGS, 'fr', key, params));
+
+		expect(auditAuthScreen({ t })).toEqual(["verify: missing translation 'verify.submit'"]);
+	});
+});
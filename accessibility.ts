@@ -0,0 +1,140 @@
+// accessibility.ts
+// Outils d'accessibilité partagés par les composants du formulaire
+// - focusField : focus clavier + focus du lecteur d'écran (VoiceOver / TalkBack) sur un champ
+// - focusForAccessibility : focus du lecteur d'écran seul (ex: message d'erreur après un envoi refusé)
+// - useFontScale : taille de texte choisie dans les réglages du téléphone (1 = normale)
+// - auditAuthScreen : vérifications d'accessibilité de chaque mode de l'écran (libellés, raisons d'un bouton désactivé...)
+
+import { AccessibilityInfo, findNodeHandle, useWindowDimensions, type TextInput } from 'react-native';
+import type { ChallengeProvider } from './challenge';
+import type { ConsentItem } from './consents';
+import type { MessageKey, Translate } from './i18n';
+import type { OAuthProvider } from './oauth';
+import type { ExtraField } from './registerFields';
+import type { AuthStep } from './useAuthForm';
+
+export function focusForAccessibility(target: Parameters<typeof findNodeHandle>[0]) {
+	const node = findNodeHandle(target);
+	if (node !== null) AccessibilityInfo.setAccessibilityFocus(node);
+}
+
+// Les lecteurs d'écran ne suivent pas toujours le focus clavier : on déplace les deux.
+export function focusField(input: TextInput | null) {
+	if (!input) return;
+	input.focus();
+	focusForAccessibility(input);
+}
+
+// Les tailles de police suivent déjà ce réglage (allowFontScaling) : cette valeur sert aux tailles fixes (cases, marges).
+export function useFontScale(): number {
+	return useWindowDimensions().fontScale;
+}
+
+// Agrandissement maximum des textes qui ne peuvent pas passer à la ligne (ex: un chiffre dans une case du code)
+export const MAX_FIXED_FONT_SCALE = 1.6;
+
+/***
+ * submitLabelKey(step) : libellé du bouton principal de chaque étape.
+ *  Login et inscription reprennent le titre ('Se connecter', 'Créer un compte') ; les autres étapes ont leur clé '<étape>.submit'.
+ *  Utilisé par AuthScreen et par auditAuthScreen.
+ */
+export function submitLabelKey(step: AuthStep): MessageKey {
+	return step === 'login' || step === 'register' ? `${step}.title` : `${step}.submit`;
+}
+
+type FieldMessages = {
+	label?: MessageKey;   // absent : pas de label visible (les cases du code), seul le libellé lu par le lecteur d'écran compte
+	a11y: MessageKey;
+};
+
+type AuditedField = 'name' | 'email' | 'code' | 'password' | 'confirm' | 'otp' | 'backupCode';
+
+const FIELD_MESSAGES: Record<AuditedField, FieldMessages> = {
+	name: { label: 'field.name.label', a11y: 'field.name.a11y' },
+	email: { label: 'field.email.label', a11y: 'field.email.a11y' },
+	code: { label: 'field.code.label', a11y: 'field.code.a11y' },
+	password: { label: 'field.password.label', a11y: 'field.password.a11y' },
+	confirm: { label: 'field.confirm.label', a11y: 'field.confirm.a11y' },
+	otp: { a11y: 'field.otp.a11y' },
+	backupCode: { label: 'field.backupCode.label', a11y: 'field.backupCode.a11y' },
+};
+
+// Champs de chaque étape
+const STEP_FIELDS: Record<AuthStep, AuditedField[]> = {
+	login: ['email', 'password'],
+	register: ['name', 'email', 'password', 'confirm'],
+	'passwordless.request': ['email'],
+	'passwordless.code': ['otp'],
+	'reset.request': ['email'],
+	'reset.reset': ['code', 'password', 'confirm'],
+	mfa: ['otp', 'backupCode'],
+	verify: [],
+};
+
+export type AuthScreenAuditOptions = {
+	t: Translate;
+	extraFields?: ExtraField[];
+	consents?: ConsentItem[];
+	oauthProviders?: OAuthProvider[];
+	challenge?: ChallengeProvider;
+};
+
+/***
+ * auditAuthScreen({ t, extraFields, consents, oauthProviders, challenge })
+ *  Passe sur chaque étape (login, inscription, code, réinitialisation...) et retourne les problèmes trouvés,
+ *  ex: "register: extra field 'referral' has no label". Tableau vide = rien à signaler.
+ *  * chaque champ a un label et un libellé pour le lecteur d'écran (traduits dans la langue choisie)
+ *  * chaque bouton a un titre, une indication, et une raison quand il est désactivé (hors ligne, délai, cases à cocher)
+ *  * fournisseurs, consentements et épreuve anti-robots ont un libellé
+ *  AuthScreen l'appelle en développement (avertissement dans la console) ; une app peut aussi l'appeler dans ses tests.
+ */
+export function auditAuthScreen({ t, extraFields = [], consents = [], oauthProviders = [], challenge }: AuthScreenAuditOptions): string[] {
+	const issues: string[] = [];
+	// Une clé absente du catalogue est retournée telle quelle par t() : elle serait lue à voix haute.
+	const requireMessage = (scope: string, key: MessageKey) => {
+		const message = t(key).trim();
+		if (!message || message === key) issues.push(`${scope}: missing translation '${key}'`);
+	};
+
+	(Object.keys(STEP_FIELDS) as AuthStep[]).forEach(step => {
+		requireMessage(step, `${step}.title`);
+		requireMessage(step, submitLabelKey(step));
+		requireMessage(step, `${step}.submitHint`);
+		STEP_FIELDS[step].forEach(field => {
+			const { label, a11y } = FIELD_MESSAGES[field];
+			if (label) requireMessage(step, label);
+			requireMessage(step, a11y);
+		});
+	});
+
+	// Raisons annoncées sur le bouton principal (désactivé, formulaire à corriger) et erreur rattachée à un champ
+	const sharedKeys: MessageKey[] = ['network.offline', 'throttle.retryIn', 'a11y.formHasErrors', 'a11y.fieldError'];
+	sharedKeys.forEach(key => requireMessage('all', key));
+
+	extraFields.forEach(field => {
+		if (!field.label.trim()) issues.push(`register: extra field '${field.key}' has no label`);
+		if (field.accessibilityLabel !== undefined && !field.accessibilityLabel.trim()) {
+			issues.push(`register: extra field '${field.key}' has an empty accessibilityLabel`);
+		}
+	});
+
+	if (consents.length > 0) requireMessage('register', 'consent.missing');
+	consents.forEach(item => {
+		if (!item.label.trim()) issues.push(`register: consent '${item.id}' has no label`);
+		(item.links ?? []).forEach(link => {
+			if (!link.label.trim()) issues.push(`register: consent '${item.id}' has a link without label (${link.url})`);
+		});
+	});
+
+	if (oauthProviders.length > 0) requireMessage('login', 'oauth.continueWith');
+	oauthProviders.forEach(provider => {
+		if (!provider.label.trim()) issues.push(`login: provider '${provider.id}' has no label`);
+	});
+
+	if (challenge) {
+		requireMessage('register', 'challenge.title');
+		requireMessage('register', 'challenge.subtitle');
+	}
+
+	return issues;
+}
@@ -0,0 +1,185 @@
+// authClient.ts
+// Transport des appels d'authentification
+// - AuthClient : le contrat (login, register, refresh, mot de passe oublié...)
+// - createHttpAuthClient : implémentation HTTP par défaut (Axios), avec apiBaseUrl et des chemins configurables
+// - en test, on peut passer n'importe quel objet qui respecte AuthClient (pas de serveur nécessaire)
+
+import axios, { type AxiosInstance } from 'axios';
+import type { AuthResponse } from './AuthScreen';
+import type { SessionTokens } from './sessionStore';
+import type { ChallengeToken } from './challenge';
+
+// challenge : token anti-robots, quand l'épreuve a été demandée (voir challenge.ts)
+export type LoginBody = { email: string; password: string; challenge?: ChallengeToken };
+// Les champs supplémentaires de l'inscription (voir registerFields.ts) sont ajoutés à côté de name/email/password.
+export type RegisterBody = { name: string; email: string; password: string; challenge?: ChallengeToken; [extra: string]: unknown };
+export type ResetPasswordBody = { email: string; code: string; password: string };
+
+/***
+ * MfaChallenge : réponse du login quand le compte demande un second facteur.
+ *  * challengeId : identifiant à renvoyer avec le code.
+ *  * method : 'totp' (application d'authentification), 'sms' ou 'email'.
+ *  * destination : où le code a été envoyé, déjà masqué par le serveur (ex: "+33 6•• •• •• 42").
+ *  * resendAfter : secondes avant de pouvoir redemander un code (sms/email).
+ */
+export type MfaChallenge = {
+	mfaRequired: true;
+	challengeId: string;
+	method?: 'totp' | 'sms' | 'email';
+	destination?: string;
+	resendAfter?: number;
+};
+
+export type VerifyMfaBody = {
+	challengeId: string;
+	code: string;
+	backupCode?: boolean; // true si `code` est un code de secours
+};
+
+export const isMfaChallenge = (data: unknown): data is MfaChallenge =>
+	!!data && typeof data === 'object' && (data as MfaChallenge).mfaRequired === true && !!(data as MfaChallenge).challengeId;
+
+/***
+ * EmailVerificationPending : réponse du register (ou du login) quand l'email doit d'abord être confirmé.
+ *  * email : adresse à laquelle le lien de confirmation a été envoyé.
+ *  * verificationId : identifiant à renvoyer pour savoir si l'email a été confirmé (polling).
+ *  * resendAfter : secondes avant de pouvoir renvoyer l'email.
+ */
+export type EmailVerificationPending = {
+	verificationRequired: true;
+	email: string;
+	verificationId?: string;
+	resendAfter?: number;
+};
+
+export type CheckEmailVerificationBody = { email: string; verificationId?: string };
+
+export const isVerificationPending = (data: unknown): data is EmailVerificationPending =>
+	!!data && typeof data === 'object' && (data as EmailVerificationPending).verificationRequired === true;
+
+/***
+ * Connexion sans mot de passe : le serveur envoie un code à usage unique (et un lien) par email.
+ *  * LoginCodeSent : réponse de la demande. resendAfter = secondes avant de pouvoir redemander un code.
+ *  * VerifyLoginCodeBody : le code saisi avec l'email, ou le jeton lu dans le lien de connexion (deep link).
+ */
+export type LoginCodeSent = { resendAfter?: number };
+export type VerifyLoginCodeBody = { email: string; code: string } | { token: string };
+
+/***
+ * OAuthCodeExchangeBody : ce que le backend reçoit après la connexion chez un fournisseur (voir oauth.ts).
+ *  Le backend échange lui-même le code (avec codeVerifier et redirectUri) auprès du fournisseur,
+ *  puis retourne une AuthResponse comme un login.
+ */
+export type OAuthCodeExchangeBody = { provider: string; code: string; codeVerifier: string; redirectUri: string };
+
+// Options d'un appel : `signal` permet d'annuler la requête (changement d'écran, délai dépassé...).
+export type RequestOptions = { signal?: AbortSignal };
+
+/***
+ * AuthClient : chaque méthode rejette (throw) en cas d'échec.
+ * L'erreur est ensuite classée par toAuthError() (authErrors.ts) : une erreur Axios y est reconnue directement,
+ * un client maison peut aussi lancer directement une AuthError.
+ */
+export type AuthClient = {
+	login: (body: LoginBody, options?: RequestOptions) => Promise<AuthResponse | MfaChallenge | EmailVerificationPending>;
+	register: (body: RegisterBody, options?: RequestOptions) => Promise<AuthResponse | EmailVerificationPending>;
+	refresh: (refreshToken: string, options?: RequestOptions) => Promise<SessionTokens>;
+	forgotPassword: (email: string, options?: RequestOptions) => Promise<void>;
+	resetPassword: (body: ResetPasswordBody, options?: RequestOptions) => Promise<void>;
+	verifyMfa: (body: VerifyMfaBody, options?: RequestOptions) => Promise<AuthResponse>;
+	resendMfa: (challengeId: string, options?: RequestOptions) => Promise<void>;
+	// Email confirmé ? -> AuthResponse (session ouverte), sinon toujours EmailVerificationPending.
+	checkEmailVerification: (body: CheckEmailVerificationBody, options?: RequestOptions) => Promise<AuthResponse | EmailVerificationPending>;
+	// Jeton lu dans le lien de confirmation (deep link) -> AuthResponse.
+	confirmEmail: (token: string, options?: RequestOptions) => Promise<AuthResponse>;
+	resendVerificationEmail: (email: string, options?: RequestOptions) => Promise<void>;
+	requestLoginCode: (email: string, options?: RequestOptions) => Promise<LoginCodeSent>;
+	verifyLoginCode: (body: VerifyLoginCodeBody, options?: RequestOptions) => Promise<AuthResponse | MfaChallenge>;
+	exchangeOAuthCode: (body: OAuthCodeExchangeBody, options?: RequestOptions) => Promise<AuthResponse | MfaChallenge>;
+};
+
+export type AuthEndpoints = {
+	login: string;
+	register: string;
+	refresh: string;
+	forgotPassword: string;
+	resetPassword: string;
+	verifyMfa: string;
+	resendMfa: string;
+	checkEmailVerification: string;
+	confirmEmail: string;
+	resendVerificationEmail: string;
+	requestLoginCode: string;
+	verifyLoginCode: string;
+	exchangeOAuthCode: string;
+};
+
+export const DEFAULT_AUTH_ENDPOINTS: AuthEndpoints = {
+	login: '/auth/login',
+	register: '/auth/register',
+	refresh: '/auth/refresh',
+	forgotPassword: '/auth/forgot-password',
+	resetPassword: '/auth/reset-password',
+	verifyMfa: '/auth/mfa/verify',
+	resendMfa: '/auth/mfa/resend',
+	checkEmailVerification: '/auth/verify-email/status',
+	confirmEmail: '/auth/verify-email',
+	resendVerificationEmail: '/auth/verify-email/resend',
+	requestLoginCode: '/auth/passwordless/start',
+	verifyLoginCode: '/auth/passwordless/verify',
+	exchangeOAuthCode: '/auth/oauth/token',
+};
+
+export type HttpAuthClientOptions = {
+	// URL de base de l'API (ex: "http://192.168.1.20:3000"). Ignorée si `http` est fourni.
+	baseUrl?: string;
+	// Chemins à surcharger (les autres gardent leur valeur par défaut).
+	endpoints?: Partial<AuthEndpoints>;
+	// Instance Axios déjà configurée (headers, intercepteurs...). Par défaut : axios.create({ baseURL: baseUrl }).
+	http?: AxiosInstance;
+};
+
+// Client HTTP : expose aussi son instance Axios (pour y brancher le refresh automatique, voir AuthProvider).
+export type HttpAuthClient = AuthClient & { http: AxiosInstance };
+
+export function createHttpAuthClient({ baseUrl, endpoints, http }: HttpAuthClientOptions = {}): HttpAuthClient {
+	const paths = { ...DEFAULT_AUTH_ENDPOINTS, ...endpoints };
+	const instance = http ?? axios.create({ baseURL: baseUrl });
+
+	// skipAuthRefresh (voir authInterceptors.ts) : un 401 sur ces routes veut dire "refusé", pas "token expiré".
+	const config = (options?: RequestOptions) => ({ skipAuthRefresh: true, signal: options?.signal });
+
+	return {
+		http: instance,
+		login: async (body, options) =>
+			(await instance.post<AuthResponse | MfaChallenge | EmailVerificationPending>(paths.login, body, config(options))).data,
+		register: async (body, options) =>
+			(await instance.post<AuthResponse | EmailVerificationPending>(paths.register, body, config(options))).data,
+		refresh: async (refreshToken, options) =>
+			(await instance.post<SessionTokens>(paths.refresh, { refreshToken }, config(options))).data,
+		forgotPassword: async (email, options) => {
+			await instance.post(paths.forgotPassword, { email }, config(options));
+		},
+		resetPassword: async (body, options) => {
+			await instance.post(paths.resetPassword, body, config(options));
+		},
+		verifyMfa: async (body, options) => (await instance.post<AuthResponse>(paths.verifyMfa, body, config(options))).data,
+		resendMfa: async (challengeId, options) => {
+			await instance.post(paths.resendMfa, { challengeId }, config(options));
+		},
+		checkEmailVerification: async (body, options) =>
+			(await instance.post<AuthResponse | EmailVerificationPending>(paths.checkEmailVerification, body, config(options))).data,
+		confirmEmail: async (token, options) =>
+			(await instance.post<AuthResponse>(paths.confirmEmail, { token }, config(options))).data,
+		resendVerificationEmail: async (email, options) => {
+			await instance.post(paths.resendVerificationEmail, { email }, config(options));
+		},
+		// Réponse vide acceptée (204) : pas de délai imposé par le serveur.
+		requestLoginCode: async (email, options) =>
+			(await instance.post<LoginCodeSent | undefined>(paths.requestLoginCode, { email }, config(options))).data || {},
+		verifyLoginCode: async (body, options) =>
+			(await instance.post<AuthResponse | MfaChallenge>(paths.verifyLoginCode, body, config(options))).data,
+		exchangeOAuthCode: async (body, options) =>
+			(await instance.post<AuthResponse | MfaChallenge>(paths.exchangeOAuthCode, body, config(options))).data,
+	};
+}
@@ -0,0 +1,139 @@
+// authErrors.ts
+// Classement des erreurs d'authentification
+// - transforme une erreur Axios / réseau en AuthError avec un code connu
+// - l'écran affiche ensuite un message traduit (clé `error.<code>`) au lieu du message technique
+//   (plus de "Request failed with status code 401" ou "Network Error" à l'écran)
+
+import { extractFieldErrors } from './validation';
+
+/***
+ * AuthErrorCode :
+ *  * invalidCredentials : email ou mot de passe incorrect (401)
+ *  * emailAlreadyUsed : inscription avec un email existant (409)
+ *  * accountLocked : compte bloqué (423, ou code serveur ACCOUNT_LOCKED)
+ *  * emailNotVerified : email pas encore confirmé (code serveur EMAIL_NOT_VERIFIED)
+ *  * rateLimited : trop de tentatives (429), voir retryAfterMs
+ *  * validation : données refusées (400/422), voir fieldErrors
+ *  * server : erreur 5xx
+ *  * offline : pas de réseau / serveur injoignable
+ *  * timeout : le serveur n'a pas répondu à temps
+ *  * cancelled : connexion chez un fournisseur (Google, Apple...) annulée par l'utilisateur
+ *  * providerError : le fournisseur a refusé ou renvoyé une réponse invalide
+ *  * challengeFailed : vérification anti-robots absente, refusée ou impossible (voir challenge.ts)
+ *  * unexpectedResponse : réponse du serveur qui n'a pas la forme attendue (voir responseSchema.ts), détails dans diagnostics
+ *  * unknown : tout le reste
+ */
+export type AuthErrorCode =
+	| 'invalidCredentials'
+	| 'emailAlreadyUsed'
+	| 'accountLocked'
+	| 'emailNotVerified'
+	| 'rateLimited'
+	| 'validation'
+	| 'server'
+	| 'offline'
+	| 'timeout'
+	| 'cancelled'
+	| 'providerError'
+	| 'challengeFailed'
+	| 'unexpectedResponse'
+	| 'unknown';
+
+type AuthErrorOptions = {
+	status?: number;
+	serverMessage?: string;                 // message renvoyé par le backend (pour les logs, pas pour l'écran)
+	retryAfterMs?: number;                  // délai demandé par le serveur (en-tête Retry-After)
+	fieldErrors?: Record<string, string>;   // erreurs par champ (validation)
+	diagnostics?: string[];                 // détails pour les développeurs (ex: champs manquants dans la réponse)
+	cause?: unknown;                        // erreur d'origine
+};
+
+export class AuthError extends Error {
+	readonly code: AuthErrorCode;
+	readonly status?: number;
+	readonly serverMessage?: string;
+	readonly retryAfterMs?: number;
+	readonly fieldErrors?: Record<string, string>;
+	readonly diagnostics?: string[];
+	readonly cause?: unknown;
+
+	constructor(code: AuthErrorCode, options: AuthErrorOptions = {}) {
+		// Les diagnostics vont dans le message : ils apparaissent tels quels dans les logs et les rapports d'erreur.
+		super(options.serverMessage ?? (options.diagnostics?.length ? `${code}: ${options.diagnostics.join('; ')}` : code));
+		this.name = 'AuthError';
+		this.code = code;
+		this.status = options.status;
+		this.serverMessage = options.serverMessage;
+		this.retryAfterMs = options.retryAfterMs;
+		this.fieldErrors = options.fieldErrors;
+		this.diagnostics = options.diagnostics;
+		this.cause = options.cause;
+	}
+}
+
+// Codes métier que certains backends renvoient dans { code: '...' } : ils priment sur le statut HTTP.
+const SERVER_CODES: Record<string, AuthErrorCode> = {
+	INVALID_CREDENTIALS: 'invalidCredentials',
+	EMAIL_ALREADY_USED: 'emailAlreadyUsed',
+	EMAIL_TAKEN: 'emailAlreadyUsed',
+	ACCOUNT_LOCKED: 'accountLocked',
+	EMAIL_NOT_VERIFIED: 'emailNotVerified',
+	RATE_LIMITED: 'rateLimited',
+	TOO_MANY_REQUESTS: 'rateLimited',
+	VALIDATION_ERROR: 'validation',
+	CHALLENGE_REQUIRED: 'challengeFailed',
+	CHALLENGE_FAILED: 'challengeFailed',
+	CAPTCHA_INVALID: 'challengeFailed',
+};
+
+const STATUS_CODES: Record<number, AuthErrorCode> = {
+	400: 'validation',
+	401: 'invalidCredentials',
+	409: 'emailAlreadyUsed',
+	422: 'validation',
+	423: 'accountLocked',
+	429: 'rateLimited',
+};
+
+// "Retry-After: 120" (secondes) ou "Retry-After: Wed, 21 Oct 2026 07:28:00 GMT" (date).
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+	if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(String(value));
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/***
+ * toAuthError(e)
+ *  Accepte n'importe quoi (erreur Axios, Error, string...) et retourne toujours une AuthError.
+ */
+export function toAuthError(e: any): AuthError {
+	if (e instanceof AuthError) return e;
+
+	const response = e?.response;
+
+	// Pas de réponse : la requête n'a jamais atteint le serveur (ou il n'a pas répondu).
+	if (!response) {
+		if (e?.code === 'ECONNABORTED' || e?.code === 'ETIMEDOUT') {
+			return new AuthError('timeout', { cause: e });
+		}
+		if (e?.code === 'ERR_NETWORK' || e?.message === 'Network Error' || e?.request) {
+			return new AuthError('offline', { cause: e });
+		}
+		return new AuthError('unknown', { cause: e, serverMessage: typeof e === 'string' ? e : undefined });
+	}
+
+	const status: number = response.status;
+	const data = response.data;
+	const serverCode = typeof data?.code === 'string' ? SERVER_CODES[data.code.toUpperCase()] : undefined;
+	const code: AuthErrorCode = serverCode ?? STATUS_CODES[status] ?? (status >= 500 ? 'server' : 'unknown');
+
+	return new AuthError(code, {
+		status,
+		serverMessage: typeof data?.message === 'string' ? data.message : undefined,
+		retryAfterMs: parseRetryAfter(response.headers?.['retry-after'] ?? data?.retryAfter),
+		fieldErrors: code === 'validation' ? extractFieldErrors(data) : undefined,
+		cause: e,
+	});
+}
@@ -0,0 +1,189 @@
+// authEvents.ts
+// Événements du parcours d'authentification, pour l'analytics (taux d'échec, causes, temps de saisie...)
+// - écran affiché, changement de mode, lien "Mot de passe oublié", envoi bloqué par la validation
+// - envoi tenté, réussi ou échoué (avec le code d'erreur, voir authErrors.ts), durées en millisecondes
+// - jamais de mot de passe ni d'email en clair : l'email n'apparaît que haché, et seulement si l'app fournit hashIdentifier
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { AuthErrorCode } from './authErrors';
+import type { AuthMode, AuthStep } from './useAuthForm';
+
+/***
+ * AuthMethod : ce qui a été envoyé
+ *  * password : login email + mot de passe ; register : inscription
+ *  * oauth : fournisseur (Google, Apple...), voir provider
+ *  * emailCode : connexion par code (demande du code ou saisie) ; emailLink : lien de connexion ouvert
+ *  * mfa : code de la vérification en deux étapes ; emailVerification : confirmation de l'email (bouton, polling ou lien)
+ *  * passwordReset : "Mot de passe oublié" (demande de l'email ou nouveau mot de passe)
+ */
+export type AuthMethod =
+	| 'password'
+	| 'register'
+	| 'oauth'
+	| 'emailCode'
+	| 'emailLink'
+	| 'mfa'
+	| 'emailVerification'
+	| 'passwordReset';
+
+/***
+ * AuthSubmitOutcome : issue d'un envoi réussi
+ *  * session : l'utilisateur est connecté
+ *  * mfaRequired / verificationRequired : étape suivante (code, confirmation de l'email)
+ *  * codeSent : code de connexion ou email de réinitialisation envoyé ; passwordReset : nouveau mot de passe enregistré
+ */
+export type AuthSubmitOutcome = 'session' | 'mfaRequired' | 'verificationRequired' | 'codeSent' | 'passwordReset';
+
+// Raison d'un envoi bloqué avant d'appeler le serveur
+export type AuthBlockReason = 'invalid' | 'validating' | 'consents';
+
+/***
+ * AuthEvent :
+ *  * screenViewed : nouvelle étape affichée
+ *  * modeSwitched : login <-> inscription <-> connexion par code
+ *  * forgotPasswordOpened : lien "Mot de passe oublié"
+ *  * submitBlocked : envoi refusé par la validation ; fields = noms des champs en erreur (jamais leur valeur)
+ *  * submitAttempted : envoi parti ; timeToSubmitMs = temps passé sur l'étape avant l'envoi
+ *  * submitSucceeded / submitFailed : réponse ; durationMs = durée depuis l'envoi. errorCode = classe de l'erreur.
+ * identifierHash : email haché par hashIdentifier (absent sans hashIdentifier).
+ */
+export type AuthEvent =
+	| { type: 'screenViewed'; step: AuthStep }
+	| { type: 'modeSwitched'; from: AuthMode; to: AuthMode }
+	| { type: 'forgotPasswordOpened' }
+	| { type: 'submitBlocked'; step: AuthStep; reason: AuthBlockReason; fields: string[] }
+	| { type: 'submitAttempted'; step: AuthStep; method: AuthMethod; provider?: string; timeToSubmitMs: number; identifierHash?: string }
+	| { type: 'submitSucceeded'; step: AuthStep; method: AuthMethod; provider?: string; outcome: AuthSubmitOutcome; durationMs?: number; identifierHash?: string }
+	| { type: 'submitFailed'; step: AuthStep; method: AuthMethod; provider?: string; errorCode: AuthErrorCode; status?: number; durationMs?: number; identifierHash?: string };
+
+export type AuthEventListener = (event: AuthEvent) => void;
+
+// Hachage d'un identifiant (ex: SHA-256 salé, via expo-crypto). Reçoit l'email en minuscules, sans espaces autour.
+export type IdentifierHasher = (identifier: string) => string | Promise<string>;
+
+/***
+ * AuthAnalyticsAdapter : outil d'analytics de l'app (Segment, Amplitude, Firebase...).
+ *  track(name, properties) : propriétés à plat, sans objet imbriqué.
+ */
+export type AuthAnalyticsAdapter = {
+	track(name: string, properties: Record<string, string | number | boolean>): void;
+};
+
+/***
+ * toAnalytics(adapter, prefix)
+ *  Transforme les événements en appels track() : 'submitFailed' -> 'auth_submit_failed', { step, method, errorCode, ... }.
+ *  ex: <AuthScreen onEvent={toAnalytics(segment)} />
+ */
+export function toAnalytics(adapter: AuthAnalyticsAdapter, prefix = 'auth_'): AuthEventListener {
+	return ({ type, ...details }) => {
+		const properties: Record<string, string | number | boolean> = {};
+		Object.entries(details).forEach(([key, value]) => {
+			if (value === undefined) return;
+			properties[key] = Array.isArray(value) ? value.join(',') : value;
+		});
+		adapter.track(prefix + type.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`), properties);
+	};
+}
+
+// Envoi en cours : étape, méthode et heure de départ, repris par l'événement de réponse.
+type Attempt = {
+	step: AuthStep;
+	method: AuthMethod;
+	provider?: string;
+	startedAt: number;
+	identifierHash: Promise<string | undefined>;
+};
+
+export type AttemptDetails = {
+	provider?: string;
+	identifier?: string | null;   // email concerné, haché avant l'envoi de l'événement
+};
+
+/***
+ * useAuthEvents(step, onEvent, hashIdentifier)
+ *  Utilisé par useAuthForm. Émet screenViewed à chaque nouvelle étape, et garde l'envoi en cours pour
+ *  compléter submitSucceeded / submitFailed.
+ *  Les événements sont livrés dans l'ordre, de façon asynchrone (le hachage peut l'être).
+ *  Une erreur dans onEvent est ignorée : l'analytics ne doit pas casser la connexion.
+ */
+export function useAuthEvents(step: AuthStep, onEvent?: AuthEventListener, hashIdentifier?: IdentifierHasher) {
+	// Dernières callbacks de l'app (souvent des fonctions inline) sans recréer les actions du formulaire
+	const listener = useRef(onEvent);
+	const hasher = useRef(hashIdentifier);
+	listener.current = onEvent;
+	hasher.current = hashIdentifier;
+
+	const queue = useRef<Promise<void>>(Promise.resolve());
+	const stepShownAt = useRef(Date.now());
+	const attempt = useRef<Attempt | null>(null);
+
+	const emit = useCallback((event: AuthEvent | Promise<AuthEvent>) => {
+		queue.current = queue.current
+			.then(async () => listener.current?.(await event))
+			.catch(() => {});
+	}, []);
+
+	useEffect(() => {
+		stepShownAt.current = Date.now();
+		emit({ type: 'screenViewed', step });
+	}, [step, emit]);
+
+	const hash = (identifier?: string | null): Promise<string | undefined> => {
+		const normalized = identifier?.trim().toLowerCase();
+		if (!normalized || !hasher.current) return Promise.resolve(undefined);
+		return Promise.resolve(hasher.current(normalized)).catch(() => undefined);
+	};
+
+	// Envoi parti (bouton, clavier, code complet, fournisseur ou lien ouvert).
+	const attempted = useCallback((method: AuthMethod, { provider, identifier }: AttemptDetails = {}) => {
+		const current: Attempt = { step, method, provider, startedAt: Date.now(), identifierHash: hash(identifier) };
+		attempt.current = current;
+		emit(current.identifierHash.then((identifierHash): AuthEvent => ({
+			type: 'submitAttempted',
+			step,
+			method,
+			provider,
+			timeToSubmitMs: current.startedAt - stepShownAt.current,
+			identifierHash,
+		})));
+	}, [step, emit]);
+
+	// Réponse de l'envoi en cours. `method` sert quand rien n'a été envoyé par l'utilisateur (ex: polling de la confirmation).
+	const succeeded = useCallback((outcome: AuthSubmitOutcome, method?: AuthMethod) => {
+		const current = attempt.current;
+		attempt.current = null;
+		if (current) {
+			const durationMs = Date.now() - current.startedAt;
+			emit(current.identifierHash.then((identifierHash): AuthEvent => ({
+				type: 'submitSucceeded',
+				step: current.step,
+				method: current.method,
+				provider: current.provider,
+				outcome,
+				durationMs,
+				identifierHash,
+			})));
+		} else if (method) {
+			emit({ type: 'submitSucceeded', step, method, outcome });
+		}
+	}, [step, emit]);
+
+	const failed = useCallback((errorCode: AuthErrorCode, status?: number) => {
+		const current = attempt.current;
+		attempt.current = null;
+		if (!current) return;
+		const durationMs = Date.now() - current.startedAt;
+		emit(current.identifierHash.then((identifierHash): AuthEvent => ({
+			type: 'submitFailed',
+			step: current.step,
+			method: current.method,
+			provider: current.provider,
+			errorCode,
+			status,
+			durationMs,
+			identifierHash,
+		})));
+	}, [emit]);
+
+	return { emit, attempted, succeeded, failed };
+}
@@ -0,0 +1,157 @@
+// authInterceptors.ts
+// Intercepteurs Axios branchés sur le store de session
+// - ajoute "Authorization: Bearer <accessToken>" à chaque requête
+// - sur un 401 : un seul appel de refresh, les autres requêtes attendent puis sont rejouées
+// - si le refresh échoue : signOut forcé
+// - refreshSession : le même refresh, utilisable hors intercepteur (refresh anticipé, voir sessionExpiry.ts)
+
+import type { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { DEFAULT_AUTH_ENDPOINTS } from './authClient';
+import type { SessionStore, SessionTokens } from './sessionStore';
+
+// Options supplémentaires acceptées par les requêtes Axios.
+declare module 'axios' {
+	interface AxiosRequestConfig {
+		skipAuthRefresh?: boolean; // ne jamais tenter de refresh pour cette requête (login, register, refresh lui-même)
+		_retry?: boolean;          // interne : la requête a déjà été rejouée une fois
+	}
+}
+
+export type AuthInterceptorOptions = {
+	// Appel de refresh (ex: client.refresh de authClient.ts). Prioritaire sur refreshPath.
+	refresh?: (refreshToken: string) => Promise<SessionTokens>;
+	// Sinon : endpoint appelé sur `http` avec { refreshToken } et qui renvoie { accessToken, refreshToken? }.
+	refreshPath?: string;
+};
+
+// Requête en attente pendant qu'un refresh est en cours.
+type PendingRequest = {
+	resolve: (accessToken: string) => void;
+	reject: (error: unknown) => void;
+};
+
+// Refresh en cours par store : le refresh anticipé et un 401 au même moment ne font qu'un seul appel.
+const inFlight = new WeakMap<SessionStore, Promise<string>>();
+
+/***
+ * refreshSession(store, http, options)
+ *  Échange le refreshToken contre un nouvel accessToken, l'enregistre dans le store et le retourne.
+ *  Rejette si la session n'a pas de refreshToken ou si la réponse n'a pas d'accessToken (pas de signOut ici).
+ */
+export function refreshSession(
+	store: SessionStore,
+	http: AxiosInstance | undefined,
+	{ refresh: refreshCall, refreshPath = DEFAULT_AUTH_ENDPOINTS.refresh }: AuthInterceptorOptions = {},
+): Promise<string> {
+	const pending = inFlight.get(store);
+	if (pending) return pending;
+
+	const run = async (): Promise<string> => {
+		const { refreshToken } = store.getState();
+		if (!refreshToken) {
+			throw new Error('Aucun refreshToken disponible.');
+		}
+		if (!refreshCall && !http) {
+			throw new Error('Aucun moyen de rafraîchir la session (ni client, ni instance Axios).');
+		}
+		const data = refreshCall
+			? await refreshCall(refreshToken)
+			: (await http!.post<SessionTokens>(refreshPath, { refreshToken }, { skipAuthRefresh: true })).data;
+		if (!data?.accessToken) {
+			throw new Error('Réponse de refresh invalide.');
+		}
+		await store.setTokens(data);
+		return data.accessToken;
+	};
+
+	const promise = run().finally(() => inFlight.delete(store));
+	inFlight.set(store, promise);
+	return promise;
+}
+
+/***
+ * attachAuthInterceptors(http, store, options)
+ *  * Retourne une fonction qui retire les intercepteurs (à appeler au démontage).
+ *  * "refreshing" est partagé par toutes les requêtes : si 3 requêtes reçoivent un 401 en même temps,
+ *    une seule appelle refreshPath, les 2 autres sont mises dans "queue" puis rejouées avec le nouveau token.
+ */
+export function attachAuthInterceptors(
+	http: AxiosInstance,
+	store: SessionStore,
+	options: AuthInterceptorOptions = {},
+): () => void {
+	let refreshing: Promise<string> | null = null;
+	let queue: PendingRequest[] = [];
+
+	const flushQueue = (error: unknown, accessToken?: string) => {
+		queue.forEach(pending => (error ? pending.reject(error) : pending.resolve(accessToken as string)));
+		queue = [];
+	};
+
+	const refresh = () => refreshSession(store, http, options);
+
+	const requestId = http.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+		const { accessToken } = store.getState();
+		if (accessToken && !config.headers.Authorization) {
+			config.headers.Authorization = `Bearer ${accessToken}`;
+		}
+		return config;
+	});
+
+	const responseId = http.interceptors.response.use(
+		(response: AxiosResponse) => response,
+		async (error: AxiosError) => {
+			const original = error.config;
+
+			// Pas un 401, requête exclue, déjà rejouée ou pas de session : on laisse passer l'erreur.
+			if (
+				error.response?.status !== 401 ||
+				!original ||
+				original.skipAuthRefresh ||
+				original._retry ||
+				!store.getState().refreshToken
+			) {
+				throw error;
+			}
+
+			// Le token a déjà été renouvelé depuis l'envoi de cette requête : on la rejoue directement.
+			const { accessToken: currentToken } = store.getState();
+			if (currentToken && original.headers.Authorization !== `Bearer ${currentToken}`) {
+				original._retry = true;
+				original.headers.Authorization = `Bearer ${currentToken}`;
+				return http(original);
+			}
+
+			// Un refresh est déjà en cours : on attend son résultat.
+			if (refreshing) {
+				const accessToken = await new Promise<string>((resolve, reject) => {
+					queue.push({ resolve, reject });
+				});
+				original._retry = true;
+				original.headers.Authorization = `Bearer ${accessToken}`;
+				return http(original);
+			}
+
+			original._retry = true;
+			refreshing = refresh();
+			try {
+				const accessToken = await refreshing;
+				flushQueue(null, accessToken);
+				original.headers.Authorization = `Bearer ${accessToken}`;
+				return http(original);
+			} catch (refreshError) {
+				// Refresh impossible : toutes les requêtes en attente échouent et l'utilisateur est déconnecté.
+				flushQueue(refreshError);
+				await store.signOut();
+				throw error;
+			} finally {
+				refreshing = null;
+			}
+		},
+	);
+
+	return () => {
+		http.interceptors.request.eject(requestId);
+		http.interceptors.response.eject(responseId);
+	};
+}
@@ -0,0 +1,5 @@
+// babel.config.js
+// Utilisé par jest (babel-jest) pour transformer le TypeScript et le JSX des composants.
+module.exports = {
+	presets: ['module:@react-native/babel-preset'],
+};
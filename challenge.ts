@@ -0,0 +1,59 @@
+// challenge.ts
+// Protection anti-robots (captcha) : interface commune à tous les fournisseurs (hCaptcha, Turnstile, reCAPTCHA...)
+// - l'épreuve est demandée à chaque inscription, et au login après plusieurs échecs
+// - le fournisseur affiche son épreuve et renvoie un token, ajouté au corps de /auth/register ou /auth/login
+// - le backend vérifie le token auprès du fournisseur (la vérification côté app ne prouve rien)
+// - createLocalChallenge() (LocalChallenge.tsx) : fournisseur local, sans réseau, pour développer et tester le parcours
+
+import type { ComponentType } from 'react';
+
+export type ChallengeAction = 'register' | 'login';
+
+/***
+ * ChallengeProps : ce que reçoit l'interface du fournisseur
+ *  * action : envoi protégé (certains fournisseurs le transmettent au backend)
+ *  * onToken(token) : épreuve réussie -> l'envoi repart avec le token
+ *  * onError(error) : le fournisseur n'a pas pu faire l'épreuve (réseau, clé invalide...)
+ *  * onCancel() : l'utilisateur a fermé l'épreuve
+ */
+export type ChallengeProps = {
+	action: ChallengeAction;
+	onToken: (token: string) => void;
+	onError: (error: unknown) => void;
+	onCancel: () => void;
+	locale?: string;
+};
+
+/***
+ * ChallengeProvider :
+ *  * id : nom envoyé avec le token (le backend sait quel fournisseur interroger), ex: 'hcaptcha'
+ *  * Challenge : composant qui affiche l'épreuve (dans le formulaire, ou dans une modale du SDK)
+ */
+export type ChallengeProvider = {
+	id: string;
+	Challenge: ComponentType<ChallengeProps>;
+};
+
+// Ajouté au corps de la requête : { ..., challenge: { provider: 'hcaptcha', token: '...' } }
+export type ChallengeToken = { provider: string; token: string };
+
+/***
+ * ChallengePolicy :
+ *  * register : épreuve à chaque inscription
+ *  * loginAfterFailures : épreuve au login à partir de ce nombre d'échecs consécutifs (voir loginThrottle.ts). 0 = à chaque login.
+ * Un refus du serveur pour token absent ou invalide (code challengeFailed) la demande aussi au prochain envoi.
+ */
+export type ChallengePolicy = {
+	register: boolean;
+	loginAfterFailures: number;
+};
+
+export const DEFAULT_CHALLENGE_POLICY: ChallengePolicy = {
+	register: true,
+	loginAfterFailures: 3,
+};
+
+// Épreuve nécessaire pour cet envoi ?
+export function isChallengeRequired(action: ChallengeAction, failures: number, policy: ChallengePolicy = DEFAULT_CHALLENGE_POLICY): boolean {
+	return action === 'register' ? policy.register : failures >= policy.loginAfterFailures;
+}
@@ -0,0 +1,73 @@
+// connectivity.ts
+// État du réseau (en ligne / hors ligne)
+// - ConnectivityAdapter : le contrat, pour pouvoir simuler le réseau en test
+// - createNetInfoConnectivity : implémentation par défaut (@react-native-community/netinfo)
+// - createFakeConnectivity : réseau piloté à la main (tests, démo)
+
+import { useEffect, useState } from 'react';
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+
+/***
+ * ConnectivityAdapter :
+ *  * isOnline : état actuel.
+ *  * subscribe : prévient à chaque changement, retourne la fonction de désabonnement.
+ */
+export type ConnectivityAdapter = {
+	isOnline: () => Promise<boolean>;
+	subscribe: (listener: (online: boolean) => void) => () => void;
+};
+
+// "Inconnu" (null) compte comme en ligne : on ne bloque l'utilisateur que si on est sûr qu'il n'a pas de réseau.
+const isStateOnline = (state: NetInfoState) => state.isConnected !== false && state.isInternetReachable !== false;
+
+export function createNetInfoConnectivity(): ConnectivityAdapter {
+	return {
+		isOnline: async () => isStateOnline(await NetInfo.fetch()),
+		subscribe: (listener) => NetInfo.addEventListener(state => listener(isStateOnline(state))),
+	};
+}
+
+export type FakeConnectivity = ConnectivityAdapter & {
+	setOnline: (online: boolean) => void;
+};
+
+export function createFakeConnectivity(initialOnline = true): FakeConnectivity {
+	let online = initialOnline;
+	const listeners = new Set<(online: boolean) => void>();
+
+	return {
+		isOnline: async () => online,
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		setOnline: (next) => {
+			online = next;
+			listeners.forEach(listener => listener(online));
+		},
+	};
+}
+
+// true tant que l'adaptateur n'a rien dit (pas de bandeau "hors ligne" au premier rendu).
+export function useConnectivity(adapter: ConnectivityAdapter): boolean {
+	const [online, setOnline] = useState(true);
+
+	useEffect(() => {
+		let cancelled = false;
+		adapter
+			.isOnline()
+			.then(value => {
+				if (!cancelled) setOnline(value);
+			})
+			.catch(() => {});
+		const unsubscribe = adapter.subscribe(setOnline);
+		return () => {
+			cancelled = true;
+			unsubscribe();
+		};
+	}, [adapter]);
+
+	return online;
+}
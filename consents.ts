@@ -0,0 +1,51 @@
+// consents.ts
+// Consentements demandés à l'inscription (conditions d'utilisation, politique de confidentialité, newsletter...)
+// - chaque case a une version : on sait quel texte l'utilisateur a accepté
+// - le corps de la requête register reçoit un enregistrement daté (ConsentRecord)
+
+export type ConsentLink = {
+	label: string;   // texte cliquable (ex: "conditions d'utilisation")
+	url: string;     // ouvert dans le navigateur
+};
+
+/***
+ * ConsentItem : une case à cocher, configurable par app.
+ *  * id : identifiant envoyé au serveur (ex: 'terms', 'privacy', 'marketing').
+ *  * label : texte de la case (ex: "J'accepte les").
+ *  * links : documents liés, affichés après le label.
+ *  * version : version du document (ex: '2026-03'). À changer quand le texte change.
+ *  * required : true = l'inscription est impossible sans cocher la case.
+ */
+export type ConsentItem = {
+	id: string;
+	label: string;
+	links?: ConsentLink[];
+	version: string;
+	required?: boolean;
+};
+
+/***
+ * ConsentRecord : ce qui est envoyé avec l'inscription.
+ *  ex: { acceptedAt: '2026-10-19T08:30:00.000Z', items: [{ id: 'terms', version: '2026-03', accepted: true }, ...] }
+ *  Les cases facultatives non cochées sont aussi envoyées (accepted: false) : le refus est une information.
+ */
+export type ConsentRecord = {
+	acceptedAt: string;
+	items: { id: string; version: string; accepted: boolean }[];
+};
+
+// true si toutes les cases obligatoires sont cochées.
+export function hasRequiredConsents(items: ConsentItem[], accepted: Record<string, boolean>): boolean {
+	return items.every(item => !item.required || accepted[item.id] === true);
+}
+
+export function buildConsentRecord(
+	items: ConsentItem[],
+	accepted: Record<string, boolean>,
+	now: Date = new Date(),
+): ConsentRecord {
+	return {
+		acceptedAt: now.toISOString(),
+		items: items.map(item => ({ id: item.id, version: item.version, accepted: accepted[item.id] === true })),
+	};
+}
@@ -0,0 +1,108 @@
+// i18n.tsx
+// Traductions des composants (fr et en inclus, autres langues ajoutées par l'app)
+// - t('clé', { param }) avec interpolation {param}
+// - repli : "fr-BE" -> "fr" -> langue par défaut -> la clé elle-même
+// - sens de lecture (RTL) pour l'arabe, l'hébreu, etc.
+
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import { I18nManager } from 'react-native';
+import { en } from './locales/en';
+import { fr, type MessageKey } from './locales/fr';
+
+export type { MessageKey };
+
+export type Catalog = Record<MessageKey, string>;
+
+/***
+ * Catalogs : une entrée par langue. Les catalogues fournis par l'app peuvent être partiels :
+ * les clés manquantes retombent sur la langue par défaut.
+ *  ex: { nl: { 'login.title': 'Inloggen', ... }, fr: { 'login.subtitle': 'Bon retour !' } }
+ */
+export type Catalogs = Record<string, Partial<Catalog>>;
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+export const DEFAULT_LOCALE = 'fr';
+
+export const BUNDLED_CATALOGS: Catalogs = { fr, en };
+
+// Langues qui s'écrivent de droite à gauche.
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'yi', 'ps'];
+
+const baseLanguage = (locale: string) => locale.toLowerCase().split(/[-_]/)[0];
+
+export const isRTLLocale = (locale: string) => RTL_LANGUAGES.includes(baseLanguage(locale));
+
+// "Bonjour {name}" + { name: 'Pol' } -> "Bonjour Pol". Un paramètre absent reste tel quel.
+export function interpolate(template: string, params?: TranslateParams): string {
+	if (!params) return template;
+	return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export function translate(catalogs: Catalogs, locale: string, key: MessageKey, params?: TranslateParams): string {
+	const candidates = [locale, baseLanguage(locale), DEFAULT_LOCALE];
+	for (const candidate of candidates) {
+		const message = catalogs[candidate]?.[key];
+		if (message !== undefined) return interpolate(message, params);
+	}
+	return key;
+}
+
+// Fusionne les catalogues clé par clé (les derniers gagnent).
+const mergeCatalogs = (...sources: (Catalogs | undefined)[]): Catalogs => {
+	const result: Catalogs = {};
+	sources.forEach(source => {
+		Object.entries(source ?? {}).forEach(([locale, messages]) => {
+			result[locale] = { ...result[locale], ...messages };
+		});
+	});
+	return result;
+};
+
+type I18nContextValue = {
+	locale: string;
+	catalogs: Catalogs;
+};
+
+const I18nContext = createContext<I18nContextValue>({ locale: DEFAULT_LOCALE, catalogs: BUNDLED_CATALOGS });
+
+type Props = {
+	children: React.ReactNode;
+	// Langue active. Si absent : celle du provider parent (ou 'fr').
+	locale?: string;
+	// Catalogues à ajouter ou à surcharger (fusionnés avec ceux du parent).
+	catalogs?: Catalogs;
+};
+
+export function I18nProvider({ children, locale, catalogs }: Props) {
+	const parent = useContext(I18nContext);
+
+	const value = useMemo<I18nContextValue>(() => ({
+		locale: locale ?? parent.locale,
+		catalogs: catalogs ? mergeCatalogs(parent.catalogs, catalogs) : parent.catalogs,
+	}), [locale, catalogs, parent]);
+
+	return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/***
+ * useTranslation(locale?)
+ *  * t : fonction de traduction.
+ *  * locale : langue effective (le paramètre a priorité sur le contexte, ex: prop `locale` d'AuthScreen).
+ *  * isRTL : la langue s'écrit de droite à gauche.
+ *  * flipRow : true s'il faut inverser les lignes (flexDirection: 'row-reverse') nous-mêmes.
+ *    Si l'app a déjà activé I18nManager.forceRTL, React Native inverse déjà 'row' : on ne ré-inverse pas.
+ */
+export function useTranslation(localeOverride?: string) {
+	const context = useContext(I18nContext);
+	const locale = localeOverride ?? context.locale;
+	const isRTL = isRTLLocale(locale);
+
+	const t = useCallback<Translate>(
+		(key, params) => translate(context.catalogs, locale, key, params),
+		[context.catalogs, locale],
+	);
+
+	return { t, locale, isRTL, flipRow: isRTL !== I18nManager.isRTL };
+}
@@ -0,0 +1,31 @@
+// jest.setup.js
+// Modules natifs absents sous jest : remplacés par des versions en mémoire ou inertes.
+
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+
+jest.mock('expo-secure-store', () => {
+	const items = new Map();
+	return {
+		getItemAsync: jest.fn(async key => items.get(key) ?? null),
+		setItemAsync: jest.fn(async (key, value) => {
+			items.set(key, value);
+		}),
+		deleteItemAsync: jest.fn(async key => {
+			items.delete(key);
+		}),
+	};
+});
+
+jest.mock('expo-crypto', () => ({
+	CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+	CryptoEncoding: { BASE64: 'base64' },
+	getRandomBytesAsync: jest.fn(async length => new Uint8Array(length)),
+	digestStringAsync: jest.fn(async () => ''),
+}));
+
+jest.mock('expo-web-browser', () => ({
+	openAuthSessionAsync: jest.fn(async () => ({ type: 'cancel' })),
+}));
+
+// Le mock de react-native ne retourne pas d'abonnement pour Linking.addEventListener (useAuthForm appelle remove()).
+jest.requireMock('react-native/Libraries/Linking/Linking').addEventListener.mockImplementation(() => ({ remove: jest.fn() }));
@@ -0,0 +1,85 @@
+// jwt.ts
+// Lecture des claims d'un JWT (accessToken)
+// - décode seulement la partie centrale du token : la signature n'est PAS vérifiée (c'est le rôle du serveur)
+// - sert à savoir quand la session expire, qui est connecté (sub) et avec quels rôles
+// - ne jamais s'en servir pour une décision de sécurité côté app : un token modifié à la main serait accepté ici
+
+/***
+ * JwtClaims : claims utiles, plus tous les autres tels quels.
+ *  * exp / iat : expiration / émission, en secondes depuis 1970 (format JWT).
+ *  * sub : identifiant de l'utilisateur.
+ *  * roles : rôles trouvés dans `roles`, `role` ou `realm_access.roles` (Keycloak), toujours un tableau.
+ */
+export type JwtClaims = {
+	exp?: number;
+	iat?: number;
+	sub?: string;
+	roles: string[];
+	[claim: string]: unknown;
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// base64url -> texte UTF-8 (atob n'existe pas sur tous les moteurs JS de React Native).
+function decodeBase64Url(input: string): string {
+	const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+	let bits = 0;
+	let buffer = 0;
+	let encoded = '';
+	for (const char of base64) {
+		const value = BASE64_ALPHABET.indexOf(char);
+		if (value === -1) throw new Error('invalid base64');
+		buffer = (buffer << 6) | value;
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			encoded += `%${((buffer >> bits) & 0xff).toString(16).padStart(2, '0')}`;
+		}
+	}
+	return decodeURIComponent(encoded);
+}
+
+function readRoles(payload: Record<string, any>): string[] {
+	const raw = payload.roles ?? payload.role ?? payload.realm_access?.roles;
+	if (Array.isArray(raw)) return raw.filter((role): role is string => typeof role === 'string');
+	return typeof raw === 'string' ? [raw] : [];
+}
+
+/***
+ * decodeJwt(token)
+ *  Retourne les claims, ou null si le token n'est pas un JWT lisible (token opaque, texte corrompu...).
+ *  ex: decodeJwt(accessToken)?.sub -> '42'
+ */
+export function decodeJwt(token: string | null | undefined): JwtClaims | null {
+	const payload = token?.split('.')[1];
+	if (!payload) return null;
+	try {
+		const claims = JSON.parse(decodeBase64Url(payload));
+		if (!claims || typeof claims !== 'object' || Array.isArray(claims)) return null;
+		return {
+			...claims,
+			exp: typeof claims.exp === 'number' ? claims.exp : undefined,
+			iat: typeof claims.iat === 'number' ? claims.iat : undefined,
+			sub: typeof claims.sub === 'string' ? claims.sub : undefined,
+			roles: readRoles(claims),
+		};
+	} catch {
+		return null;
+	}
+}
+
+// Date d'expiration en millisecondes (comme Date.now()), ou null si le token n'en a pas.
+export function tokenExpiresAt(token: string | null | undefined): number | null {
+	const exp = decodeJwt(token)?.exp;
+	return exp === undefined ? null : exp * 1000;
+}
+
+/***
+ * isTokenExpired(token, now, leewayMs)
+ *  true si le token expire dans moins de `leewayMs` (0 par défaut : déjà expiré).
+ *  Un token sans `exp` (ou opaque) n'est jamais considéré comme expiré : seul le serveur peut le dire (401).
+ */
+export function isTokenExpired(token: string | null | undefined, now: number = Date.now(), leewayMs: number = 0): boolean {
+	const expiresAt = tokenExpiresAt(token);
+	return expiresAt !== null && expiresAt - leewayMs <= now;
+}
@@ -0,0 +1,184 @@
+// locales/en.ts
+// English catalog (same keys as fr.ts)
+
+import type { MessageKey } from './fr';
+
+export const en: Record<MessageKey, string> = {
+	// Common
+	'common.success': 'Success',
+
+	// Login
+	'login.title': 'Sign in',
+	'login.subtitle': 'Welcome back 👋',
+	'login.submitHint': 'Submit to sign in',
+	'login.success': 'Signed in',
+	'login.forgotPassword': 'Forgot password?',
+
+	// Register
+	'register.title': 'Create an account',
+	'register.subtitle': 'Welcome! Create your account to get started.',
+	'register.submitHint': 'Submit to create an account',
+	'register.success': 'Account created!',
+
+	// Login/Register switch
+	'switch.toRegisterText': "Don't have an account?",
+	'switch.toRegisterLink': 'Create an account',
+	'switch.toLoginText': 'Already registered?',
+	'switch.toLoginLink': 'Sign in',
+
+	// Identity providers (Google, Apple...)
+	'oauth.divider': 'or',
+	'oauth.continueWith': 'Continue with {provider}',
+
+	// Passwordless sign-in
+	'passwordless.request.title': 'Sign in by email',
+	'passwordless.request.subtitle': "Enter your email and we'll send you a code and a link to sign in.",
+	'passwordless.request.submit': 'Send me a code',
+	'passwordless.request.submitHint': 'Submit to receive a sign-in code',
+	'passwordless.code.title': 'Check your email',
+	'passwordless.code.subtitle': 'Enter the {length}-digit code sent to {email}, or open the link you received.',
+	'passwordless.code.submit': 'Sign in',
+	'passwordless.code.submitHint': 'Submit to sign in with the code',
+	'passwordless.useCode': 'Email me a sign-in code',
+	'passwordless.usePassword': 'Sign in with a password',
+	'passwordless.changeEmail': 'Use a different email',
+	'passwordless.resend': 'Resend code',
+	'passwordless.resendIn': 'Resend code in {seconds}s',
+	'passwordless.resentTitle': 'Code sent',
+	'passwordless.resentMessage': 'A new code has been sent to {email}.',
+
+	// Forgot password
+	'reset.request.title': 'Forgot password',
+	'reset.request.subtitle': "Enter your email and we'll send you a reset code.",
+	'reset.request.submit': 'Send code',
+	'reset.request.submitHint': 'Submit to receive a reset code',
+	'reset.reset.title': 'New password',
+	'reset.reset.subtitle': 'Enter the code you received by email and choose a new password.',
+	'reset.reset.submit': 'Change password',
+	'reset.reset.submitHint': 'Submit to change your password',
+	'reset.emailSentTitle': 'Email sent',
+	'reset.emailSentMessage': 'If an account exists for this address, you will receive a reset code.',
+	'reset.doneTitle': 'Password changed',
+	'reset.doneMessage': 'You can now sign in with your new password.',
+	'reset.haveCode': 'I already have a code',
+	'reset.backToLogin': 'Back to sign in',
+
+	// Two-factor verification
+	'mfa.title': 'Two-step verification',
+	'mfa.subtitle': 'Enter the {length}-digit code from your authenticator app.',
+	'mfa.subtitleSent': 'Enter the {length}-digit code sent to {destination}.',
+	'mfa.backupSubtitle': 'Enter one of your backup codes.',
+	'mfa.submit': 'Verify',
+	'mfa.submitHint': 'Submit to verify the code',
+	'mfa.resend': 'Resend code',
+	'mfa.resendIn': 'Resend code in {seconds}s',
+	'mfa.resentTitle': 'Code sent',
+	'mfa.resentMessage': 'A new code has been sent to you.',
+	'mfa.useBackup': 'Use a backup code',
+	'mfa.useOtp': 'Use the verification code',
+
+	// Email confirmation
+	'verify.title': 'Confirm your email',
+	'verify.subtitle': 'We sent a confirmation link to {email}. Open it to activate your account.',
+	'verify.submit': "I've confirmed my email",
+	'verify.submitHint': 'Submit to check whether the email has been confirmed',
+	'verify.notYet': 'Your email is not confirmed yet. Open the link you received, then try again.',
+	'verify.success': 'Email confirmed!',
+	'verify.resend': 'Resend email',
+	'verify.resendIn': 'Resend email in {seconds}s',
+	'verify.resentTitle': 'Email sent',
+	'verify.resentMessage': 'A new confirmation link has been sent to {email}.',
+
+	// Attempt throttling
+	'throttle.retryIn': 'Try again in {time}',
+	'throttle.lockedTitle': 'Account temporarily locked',
+	'throttle.lockedMessage': 'Too many attempts. You can try again in {time}, or reset your password.',
+
+	// Network
+	'network.offline': 'No internet connection. Check your network to continue.',
+
+	// Bot protection
+	'challenge.title': 'Security check',
+	'challenge.subtitle': "Confirm you're a person to continue.",
+	'challenge.cancel': 'Cancel',
+	'challenge.local.label': "I'm not a robot",
+
+	// Consents
+	'consent.missing': 'Check the required boxes to create your account.',
+	'consent.requiredA11y': '{label}, required',
+
+	// Fields
+	'field.name.label': 'Name',
+	'field.name.placeholder': 'Your name',
+	'field.name.a11y': 'Name field',
+	'field.email.label': 'Email',
+	'field.email.placeholder': 'example@gmail.com',
+	'field.email.a11y': 'Email field',
+	'field.code.label': 'Code received by email',
+	'field.code.placeholder': '123456',
+	'field.code.a11y': 'Reset code field',
+	'field.password.label': 'Password',
+	'field.password.newLabel': 'New password',
+	'field.password.placeholder': '********',
+	'field.password.a11y': 'Password field',
+	'field.confirm.label': 'Confirm password',
+	'field.confirm.a11y': 'Password confirmation field',
+	'field.otp.a11y': '{length}-digit verification code',
+	'field.backupCode.label': 'Backup code',
+	'field.backupCode.a11y': 'Backup code field',
+	'password.show': 'Show',
+	'password.hide': 'Hide',
+	'password.capsLock': 'Caps Lock on?',
+	'password.pastedSpaces': 'The pasted text starts or ends with a space.',
+
+	// Validation
+	'validation.nameRequired': 'Name is required.',
+	'validation.emailRequired': 'Email is required.',
+	'validation.emailInvalid': 'Invalid email address.',
+	'validation.emailTaken': 'This email is already in use.',
+	'validation.passwordRequired': 'Password is required.',
+	'validation.passwordMismatch': 'Passwords do not match.',
+	'validation.codeRequired': 'Enter the code you received by email.',
+	'validation.otpRequired': 'Enter the verification code.',
+	'validation.otpLength': 'The code has {length} digits.',
+
+	// Password policy (checklist + meter)
+	'passwordRule.minLength': 'At least {min} characters',
+	'passwordRule.lowercase': 'A lowercase letter',
+	'passwordRule.uppercase': 'An uppercase letter',
+	'passwordRule.digit': 'A digit',
+	'passwordRule.symbol': 'A special character',
+	'passwordRule.personalInfo': 'Does not contain your name or email',
+	'passwordRule.common': 'Is not a common password',
+	'passwordRule.passedA11y': '{rule}: met',
+	'passwordRule.failedA11y': '{rule}: not met',
+	'strength.0': 'Very weak',
+	'strength.1': 'Weak',
+	'strength.2': 'Fair',
+	'strength.3': 'Good',
+	'strength.4': 'Excellent',
+	'strength.a11y': 'Password strength: {level}',
+
+	// Errors
+	'error.invalidCredentials': 'Incorrect email or password.',
+	'error.emailAlreadyUsed': 'An account already exists with this email.',
+	'error.accountLocked': 'This account is temporarily locked. Try again later or reset your password.',
+	'error.emailNotVerified': 'Your email is not confirmed yet.',
+	'error.rateLimited': 'Too many attempts. Please wait a moment before trying again.',
+	'error.validation': 'Some information is invalid. Please check the form.',
+	'error.server': 'The server is having trouble. Please try again shortly.',
+	'error.offline': 'Unable to reach the server.',
+	'error.timeout': 'The server is taking too long to respond. Please try again.',
+	'error.cancelled': 'Sign-in cancelled.',
+	'error.providerError': "Signing in with this service didn't work. Please try again.",
+	'error.unexpectedResponse': 'Unexpected response from the server. Please try again later.',
+	'error.challengeFailed': 'The security check failed. Please try again.',
+	'error.unknown': 'Something went wrong.',
+	'error.invalidResetCode': 'This code is invalid or has expired.',
+	'error.invalidMfaCode': 'Incorrect or expired verification code.',
+	'error.invalidLoginLink': 'This sign-in link is invalid or has expired.',
+
+	// Accessibility (screen reader)
+	'a11y.fieldError': '{label}, error: {error}',
+	'a11y.formHasErrors': 'The form has errors: submitting moves to the first field to fix.',
+};
@@ -0,0 +1,185 @@
+// locales/fr.ts
+// Catalogue français (langue de référence : toutes les clés existent ici)
+// - {nom} est remplacé par la valeur passée à t('clé', { nom: ... })
+
+export const fr = {
+	// Commun
+	'common.success': 'Succès',
+
+	// Login
+	'login.title': 'Se connecter',
+	'login.subtitle': 'Ravi de te revoir 👋',
+	'login.submitHint': 'Valider pour se connecter',
+	'login.success': 'Connexion réussie',
+	'login.forgotPassword': 'Mot de passe oublié ?',
+
+	// Register
+	'register.title': 'Créer un compte',
+	'register.subtitle': 'Bienvenue ! Crée ton compte pour commencer.',
+	'register.submitHint': 'Valider pour créer un compte',
+	'register.success': 'Compte créé !',
+
+	// Bascule Login/Register
+	'switch.toRegisterText': 'Pas encore de compte ?',
+	'switch.toRegisterLink': 'Créer un compte',
+	'switch.toLoginText': 'Déjà inscrit ?',
+	'switch.toLoginLink': 'Se connecter',
+
+	// Fournisseurs d'identité (Google, Apple...)
+	'oauth.divider': 'ou',
+	'oauth.continueWith': 'Continuer avec {provider}',
+
+	// Connexion sans mot de passe
+	'passwordless.request.title': 'Connexion par email',
+	'passwordless.request.subtitle': "Entre ton email, on t'envoie un code et un lien pour te connecter.",
+	'passwordless.request.submit': 'Recevoir un code',
+	'passwordless.request.submitHint': 'Valider pour recevoir un code de connexion',
+	'passwordless.code.title': 'Vérifie tes emails',
+	'passwordless.code.subtitle': 'Entre le code à {length} chiffres envoyé à {email}, ou ouvre le lien reçu.',
+	'passwordless.code.submit': 'Se connecter',
+	'passwordless.code.submitHint': 'Valider pour se connecter avec le code',
+	'passwordless.useCode': 'Recevoir un code par email',
+	'passwordless.usePassword': 'Se connecter avec un mot de passe',
+	'passwordless.changeEmail': "Changer d'adresse email",
+	'passwordless.resend': 'Renvoyer le code',
+	'passwordless.resendIn': 'Renvoyer le code dans {seconds} s',
+	'passwordless.resentTitle': 'Code envoyé',
+	'passwordless.resentMessage': 'Un nouveau code a été envoyé à {email}.',
+
+	// Mot de passe oublié
+	'reset.request.title': 'Mot de passe oublié',
+	'reset.request.subtitle': "Entre ton email, on t'envoie un code de réinitialisation.",
+	'reset.request.submit': 'Envoyer le code',
+	'reset.request.submitHint': 'Valider pour recevoir un code de réinitialisation',
+	'reset.reset.title': 'Nouveau mot de passe',
+	'reset.reset.subtitle': 'Entre le code reçu par email et choisis un nouveau mot de passe.',
+	'reset.reset.submit': 'Changer le mot de passe',
+	'reset.reset.submitHint': 'Valider pour changer le mot de passe',
+	'reset.emailSentTitle': 'Email envoyé',
+	'reset.emailSentMessage': 'Si un compte existe pour cette adresse, tu vas recevoir un code de réinitialisation.',
+	'reset.doneTitle': 'Mot de passe modifié',
+	'reset.doneMessage': 'Tu peux maintenant te connecter avec ton nouveau mot de passe.',
+	'reset.haveCode': "J'ai déjà un code",
+	'reset.backToLogin': 'Retour à la connexion',
+
+	// Vérification en deux étapes
+	'mfa.title': 'Vérification en deux étapes',
+	'mfa.subtitle': "Entre le code à {length} chiffres de ton application d'authentification.",
+	'mfa.subtitleSent': 'Entre le code à {length} chiffres envoyé à {destination}.',
+	'mfa.backupSubtitle': "Entre l'un de tes codes de secours.",
+	'mfa.submit': 'Vérifier',
+	'mfa.submitHint': 'Valider pour vérifier le code',
+	'mfa.resend': 'Renvoyer le code',
+	'mfa.resendIn': 'Renvoyer le code dans {seconds} s',
+	'mfa.resentTitle': 'Code envoyé',
+	'mfa.resentMessage': "Un nouveau code vient de t'être envoyé.",
+	'mfa.useBackup': 'Utiliser un code de secours',
+	'mfa.useOtp': 'Utiliser le code de vérification',
+
+	// Confirmation de l'email
+	'verify.title': 'Confirme ton email',
+	'verify.subtitle': 'Nous avons envoyé un lien de confirmation à {email}. Ouvre-le pour activer ton compte.',
+	'verify.submit': "J'ai confirmé mon email",
+	'verify.submitHint': "Valider pour vérifier si l'email a été confirmé",
+	'verify.notYet': "Ton email n'est pas encore confirmé. Ouvre le lien reçu puis réessaie.",
+	'verify.success': 'Email confirmé !',
+	'verify.resend': "Renvoyer l'email",
+	'verify.resendIn': "Renvoyer l'email dans {seconds} s",
+	'verify.resentTitle': 'Email envoyé',
+	'verify.resentMessage': 'Un nouveau lien de confirmation a été envoyé à {email}.',
+
+	// Limitation des tentatives
+	'throttle.retryIn': 'Réessaie dans {time}',
+	'throttle.lockedTitle': 'Compte temporairement bloqué',
+	'throttle.lockedMessage': 'Trop de tentatives. Tu pourras réessayer dans {time}, ou réinitialiser ton mot de passe.',
+
+	// Réseau
+	'network.offline': 'Pas de connexion internet. Vérifie ton réseau pour continuer.',
+
+	// Protection anti-robots
+	'challenge.title': 'Vérification de sécurité',
+	'challenge.subtitle': 'Confirme que tu es bien une personne pour continuer.',
+	'challenge.cancel': 'Annuler',
+	'challenge.local.label': 'Je ne suis pas un robot',
+
+	// Consentements
+	'consent.missing': 'Coche les cases obligatoires pour créer ton compte.',
+	'consent.requiredA11y': '{label}, obligatoire',
+
+	// Champs
+	'field.name.label': 'Nom',
+	'field.name.placeholder': 'Ton Nom',
+	'field.name.a11y': 'Champ nom',
+	'field.email.label': 'Email',
+	'field.email.placeholder': 'exemple@gmail.com',
+	'field.email.a11y': 'Champ email',
+	'field.code.label': 'Code reçu par email',
+	'field.code.placeholder': '123456',
+	'field.code.a11y': 'Champ code de réinitialisation',
+	'field.password.label': 'Mot de passe',
+	'field.password.newLabel': 'Nouveau mot de passe',
+	'field.password.placeholder': '********',
+	'field.password.a11y': 'Champ mot de passe',
+	'field.confirm.label': 'Confirmer le mot de passe',
+	'field.confirm.a11y': 'Champ confirmation mot de passe',
+	'field.otp.a11y': 'Code de vérification à {length} chiffres',
+	'field.backupCode.label': 'Code de secours',
+	'field.backupCode.a11y': 'Champ code de secours',
+	'password.show': 'Afficher',
+	'password.hide': 'Masquer',
+	'password.capsLock': 'Verrouillage des majuscules activé ?',
+	'password.pastedSpaces': 'Le texte collé commence ou finit par un espace.',
+
+	// Validation
+	'validation.nameRequired': 'Le nom est obligatoire.',
+	'validation.emailRequired': "L'email est obligatoire.",
+	'validation.emailInvalid': 'Adresse email invalide.',
+	'validation.emailTaken': 'Cet email est déjà utilisé.',
+	'validation.passwordRequired': 'Le mot de passe est obligatoire.',
+	'validation.passwordMismatch': 'Les mots de passe ne correspondent pas.',
+	'validation.codeRequired': 'Entre le code reçu par email.',
+	'validation.otpRequired': 'Entre le code de vérification.',
+	'validation.otpLength': 'Le code contient {length} chiffres.',
+
+	// Politique de mot de passe (checklist + jauge)
+	'passwordRule.minLength': 'Au moins {min} caractères',
+	'passwordRule.lowercase': 'Une lettre minuscule',
+	'passwordRule.uppercase': 'Une lettre majuscule',
+	'passwordRule.digit': 'Un chiffre',
+	'passwordRule.symbol': 'Un caractère spécial',
+	'passwordRule.personalInfo': 'Ne contient ni ton nom ni ton email',
+	'passwordRule.common': "N'est pas un mot de passe courant",
+	'passwordRule.passedA11y': '{rule} : respecté',
+	'passwordRule.failedA11y': '{rule} : non respecté',
+	'strength.0': 'Très faible',
+	'strength.1': 'Faible',
+	'strength.2': 'Moyen',
+	'strength.3': 'Bon',
+	'strength.4': 'Excellent',
+	'strength.a11y': 'Robustesse du mot de passe : {level}',
+
+	// Erreurs
+	'error.invalidCredentials': 'Email ou mot de passe incorrect.',
+	'error.emailAlreadyUsed': 'Un compte existe déjà avec cet email.',
+	'error.accountLocked': 'Ce compte est temporairement bloqué. Réessaie plus tard ou réinitialise ton mot de passe.',
+	'error.emailNotVerified': "Ton email n'est pas encore confirmé.",
+	'error.rateLimited': 'Trop de tentatives. Patiente un peu avant de réessayer.',
+	'error.validation': 'Certaines informations sont invalides. Vérifie le formulaire.',
+	'error.server': 'Le serveur rencontre un problème. Réessaie dans quelques instants.',
+	'error.offline': 'Impossible de contacter le serveur.',
+	'error.timeout': 'Le serveur met trop de temps à répondre. Réessaie.',
+	'error.cancelled': 'Connexion annulée.',
+	'error.providerError': "La connexion avec ce service n'a pas abouti. Réessaie.",
+	'error.unexpectedResponse': 'Réponse inattendue du serveur. Réessaie plus tard.',
+	'error.challengeFailed': 'La vérification de sécurité a échoué. Réessaie.',
+	'error.unknown': 'Une erreur est survenue.',
+	'error.invalidResetCode': 'Ce code est invalide ou a expiré.',
+	'error.invalidMfaCode': 'Code de vérification incorrect ou expiré.',
+	'error.invalidLoginLink': 'Ce lien de connexion est invalide ou a expiré.',
+
+	// Accessibilité (lecteur d'écran)
+	'a11y.fieldError': '{label}, erreur : {error}',
+	'a11y.formHasErrors': 'Le formulaire contient des erreurs : valider amène au premier champ à corriger.',
+};
+
+export type MessageKey = keyof typeof fr;
@@ -0,0 +1,195 @@
+// loginThrottle.ts
+// Limitation des tentatives de connexion côté client
+// - compte les échecs consécutifs et impose un délai croissant avant la tentative suivante
+// - respecte le délai demandé par le serveur (429 + Retry-After) et le blocage du compte (423)
+// - l'état est persisté via un StorageAdapter : tuer l'app ne remet pas le compteur à zéro
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AuthError } from './authErrors';
+import type { StorageAdapter } from './sessionStorage';
+import { useCountdown } from './useCountdown';
+
+/***
+ * ThrottlePolicy :
+ *  * freeAttempts : échecs tolérés sans délai.
+ *  * baseDelayMs : délai après le premier échec "payant", doublé à chaque échec suivant.
+ *  * maxDelayMs : plafond du délai.
+ *  * lockAfter : nombre d'échecs consécutifs qui bloque le compte localement.
+ *  * lockDurationMs : durée de ce blocage (et d'un 423 sans Retry-After).
+ */
+export type ThrottlePolicy = {
+	freeAttempts: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	lockAfter: number;
+	lockDurationMs: number;
+};
+
+export const DEFAULT_THROTTLE_POLICY: ThrottlePolicy = {
+	freeAttempts: 3,
+	baseDelayMs: 5_000,
+	maxDelayMs: 5 * 60_000,
+	lockAfter: 10,
+	lockDurationMs: 15 * 60_000,
+};
+
+export type ThrottleState = {
+	failures: number;       // échecs consécutifs
+	blockedUntil: number;   // timestamp (ms) avant lequel on ne peut pas réessayer, 0 = libre
+	locked: boolean;        // true = "compte temporairement bloqué" (et pas un simple délai)
+};
+
+export const INITIAL_THROTTLE_STATE: ThrottleState = { failures: 0, blockedUntil: 0, locked: false };
+
+// Clé par défaut dans le stockage (compatible avec les contraintes de SecureStore).
+export const DEFAULT_THROTTLE_KEY = 'auth.throttle';
+
+// Délai imposé après `failures` échecs consécutifs (0 tant qu'on reste dans les essais gratuits).
+export function throttleDelay(failures: number, policy: ThrottlePolicy = DEFAULT_THROTTLE_POLICY): number {
+	const paid = failures - policy.freeAttempts;
+	if (paid <= 0) return 0;
+	return Math.min(policy.baseDelayMs * 2 ** (paid - 1), policy.maxDelayMs);
+}
+
+/***
+ * nextThrottleState(state, error)
+ *  Nouvel état après un échec. Seuls les refus du serveur comptent :
+ *  une erreur réseau ou un 5xx n'est pas la faute de l'utilisateur.
+ *  Retourne l'état inchangé si l'erreur ne compte pas.
+ */
+export function nextThrottleState(
+	state: ThrottleState,
+	error: AuthError,
+	policy: ThrottlePolicy = DEFAULT_THROTTLE_POLICY,
+	now: number = Date.now(),
+): ThrottleState {
+	if (error.code === 'accountLocked') {
+		return {
+			failures: state.failures + 1,
+			blockedUntil: now + (error.retryAfterMs ?? policy.lockDurationMs),
+			locked: true,
+		};
+	}
+	if (error.code === 'rateLimited') {
+		// Le serveur a le dernier mot : son délai s'il en donne un, sinon notre délai croissant.
+		const failures = state.failures + 1;
+		const delay = error.retryAfterMs ?? Math.max(throttleDelay(failures, policy), policy.baseDelayMs);
+		return { failures, blockedUntil: now + delay, locked: false };
+	}
+	if (error.code !== 'invalidCredentials') return state;
+
+	const failures = state.failures + 1;
+	if (failures >= policy.lockAfter) {
+		return { failures, blockedUntil: now + policy.lockDurationMs, locked: true };
+	}
+	const delay = throttleDelay(failures, policy);
+	return { failures, blockedUntil: delay ? now + delay : 0, locked: false };
+}
+
+/***
+ * mergeThrottleStates(a, b)
+ *  Réunit deux états (ex: celui relu du stockage et un échec enregistré avant la fin de la lecture) :
+ *  le plus grand nombre d'échecs, et le blocage qui finit le plus tard.
+ */
+export function mergeThrottleStates(a: ThrottleState, b: ThrottleState): ThrottleState {
+	const later = b.blockedUntil > a.blockedUntil ? b : a;
+	return {
+		failures: Math.max(a.failures, b.failures),
+		blockedUntil: later.blockedUntil,
+		locked: later.locked,
+	};
+}
+
+// Relit l'état persisté (valeur absente ou illisible -> état initial).
+function parseThrottleState(raw: string | null): ThrottleState {
+	if (!raw) return INITIAL_THROTTLE_STATE;
+	try {
+		const parsed = JSON.parse(raw);
+		return {
+			failures: Number(parsed.failures) || 0,
+			blockedUntil: Number(parsed.blockedUntil) || 0,
+			locked: parsed.locked === true,
+		};
+	} catch {
+		return INITIAL_THROTTLE_STATE;
+	}
+}
+
+/***
+ * useLoginThrottle(storage, key, policy)
+ *  * failures : échecs consécutifs.
+ *  * remaining : secondes avant la prochaine tentative (0 = on peut réessayer).
+ *  * locked : blocage du compte en cours.
+ *  * registerFailure(error) : à appeler après un échec (login, code de vérification).
+ *  * registerSuccess() : remet tout à zéro.
+ */
+export function useLoginThrottle(
+	storage: StorageAdapter,
+	storageKey: string = DEFAULT_THROTTLE_KEY,
+	policy: ThrottlePolicy = DEFAULT_THROTTLE_POLICY,
+) {
+	const [state, setState] = useState<ThrottleState>(INITIAL_THROTTLE_STATE);
+	const stateRef = useRef(state);
+	// Connexion réussie avant la fin de la lecture du stockage : l'ancien compteur ne compte plus.
+	const resetBeforeRestore = useRef(false);
+	const countdown = useCountdown();
+
+	const apply = useCallback((next: ThrottleState) => {
+		stateRef.current = next;
+		setState(next);
+		countdown.start(Math.max(0, (next.blockedUntil - Date.now()) / 1000));
+	}, [countdown.start]);
+
+	const persist = useCallback((next: ThrottleState) => {
+		const write = next.failures === 0
+			? storage.removeItem(storageKey)
+			: storage.setItem(storageKey, JSON.stringify(next));
+		// Un stockage indisponible ne doit pas empêcher de se connecter : on garde l'état en mémoire.
+		write.catch(() => {});
+	}, [storage, storageKey]);
+
+	// Au montage : reprend le compteur (et le délai en cours) de la session précédente de l'app.
+	// Lecture asynchrone : un échec enregistré entre-temps est fusionné avec l'état relu, pas écrasé.
+	useEffect(() => {
+		let cancelled = false;
+		resetBeforeRestore.current = false;
+		storage
+			.getItem(storageKey)
+			.then(raw => {
+				if (cancelled || resetBeforeRestore.current) return;
+				const current = stateRef.current;
+				const merged = mergeThrottleStates(parseThrottleState(raw), current);
+				apply(merged);
+				// L'échec enregistré pendant la lecture a écrit son propre compteur : on réécrit le total.
+				if (current.failures > 0) persist(merged);
+			})
+			.catch(() => {});
+		return () => {
+			cancelled = true;
+		};
+	}, [storage, storageKey, apply, persist]);
+
+	const registerFailure = useCallback((error: AuthError) => {
+		const next = nextThrottleState(stateRef.current, error, policy);
+		if (next === stateRef.current) return;
+		apply(next);
+		persist(next);
+	}, [policy, apply, persist]);
+
+	const registerSuccess = useCallback(() => {
+		resetBeforeRestore.current = true;
+		if (stateRef.current.failures === 0 && !stateRef.current.blockedUntil) return;
+		apply(INITIAL_THROTTLE_STATE);
+		persist(INITIAL_THROTTLE_STATE);
+	}, [apply, persist]);
+
+	const remaining = countdown.remaining;
+
+	return {
+		failures: state.failures,
+		remaining,
+		locked: state.locked && remaining > 0,
+		registerFailure,
+		registerSuccess,
+	};
+}
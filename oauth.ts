@@ -0,0 +1,150 @@
+// oauth.ts
+// Connexion avec un fournisseur d'identité (Google, Apple, GitHub, OIDC...) : OAuth 2.0 "authorization code" + PKCE
+// - ouvre la page du fournisseur dans le navigateur, attend la redirection vers l'app
+// - retourne le code d'autorisation + le code_verifier : l'échange contre une session se fait par notre backend
+// - aucun secret dans l'app : le PKCE remplace le client_secret
+
+import * as Crypto from 'expo-crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { AuthError } from './authErrors';
+import type { OAuthCodeExchangeBody } from './authClient';
+
+/***
+ * OAuthProvider : config générique, valable aussi pour un serveur d'autorisation de test en local.
+ *  * id : envoyé au backend avec le code (ex: 'google').
+ *  * label : nom affiché sur le bouton (ex: 'Google').
+ *  * authorizationEndpoint : page d'autorisation (ex: 'https://accounts.google.com/o/oauth2/v2/auth', 'http://192.168.1.20:4000/authorize').
+ *  * clientId : identifiant public de l'app chez le fournisseur.
+ *  * redirectUri : lien de retour vers l'app, déclaré chez le fournisseur (ex: 'monapp://oauth/callback').
+ *  * scopes : défaut ['openid', 'email', 'profile'].
+ *  * params : paramètres en plus dans l'URL (ex: { prompt: 'select_account' }).
+ *  * color / textColor : couleurs du bouton (sinon celles du thème).
+ */
+export type OAuthProvider = {
+	id: string;
+	label: string;
+	authorizationEndpoint: string;
+	clientId: string;
+	redirectUri: string;
+	scopes?: string[];
+	params?: Record<string, string>;
+	color?: string;
+	textColor?: string;
+};
+
+export const DEFAULT_OAUTH_SCOPES = ['openid', 'email', 'profile'];
+
+/***
+ * OAuthBrowser : ouvre la page d'autorisation et attend la redirection.
+ * Par défaut expo-web-browser ; en test, un faux navigateur qui renvoie directement l'URL de redirection.
+ */
+export type OAuthBrowserResult = { type: 'success'; url: string } | { type: 'cancel' };
+
+export type OAuthBrowser = {
+	openAuthSession: (url: string, redirectUri: string) => Promise<OAuthBrowserResult>;
+};
+
+export function createWebBrowser(): OAuthBrowser {
+	return {
+		openAuthSession: async (url, redirectUri) => {
+			const result = await WebBrowser.openAuthSessionAsync(url, redirectUri);
+			// 'cancel' (fermé par l'utilisateur), 'dismiss', 'locked'... : tout ce qui n'est pas une redirection est une annulation.
+			return result.type === 'success' ? { type: 'success', url: result.url } : { type: 'cancel' };
+		},
+	};
+}
+
+// Caractères autorisés pour le code_verifier (RFC 7636). 64 caractères : un octet % 64 ne favorise aucun caractère.
+const VERIFIER_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export async function randomString(length: number): Promise<string> {
+	const bytes = await Crypto.getRandomBytesAsync(length);
+	return Array.from(bytes, byte => VERIFIER_CHARSET[byte % VERIFIER_CHARSET.length]).join('');
+}
+
+export type Pkce = { codeVerifier: string; codeChallenge: string };
+
+// code_challenge = base64url(SHA-256(code_verifier)), méthode S256.
+export async function createPkce(): Promise<Pkce> {
+	const codeVerifier = await randomString(64);
+	const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, codeVerifier, {
+		encoding: Crypto.CryptoEncoding.BASE64,
+	});
+	const codeChallenge = digest.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+	return { codeVerifier, codeChallenge };
+}
+
+export function buildAuthorizationUrl(
+	provider: OAuthProvider,
+	{ state, codeChallenge }: { state: string; codeChallenge: string },
+): string {
+	const params: Record<string, string> = {
+		response_type: 'code',
+		client_id: provider.clientId,
+		redirect_uri: provider.redirectUri,
+		scope: (provider.scopes ?? DEFAULT_OAUTH_SCOPES).join(' '),
+		state,
+		code_challenge: codeChallenge,
+		code_challenge_method: 'S256',
+		...provider.params,
+	};
+	const query = Object.entries(params)
+		.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+		.join('&');
+	const separator = provider.authorizationEndpoint.includes('?') ? '&' : '?';
+	return `${provider.authorizationEndpoint}${separator}${query}`;
+}
+
+// Paramètres de la redirection : dans la query (?code=...) ou, chez certains fournisseurs, dans le fragment (#code=...).
+function redirectParams(url: string): Record<string, string> {
+	const params: Record<string, string> = {};
+	const parts = url.split(/[?#]/).slice(1).join('&');
+	parts.split('&').forEach(pair => {
+		const [key, value = ''] = pair.split('=');
+		if (!key) return;
+		try {
+			params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+		} catch {
+			// paramètre mal encodé ignoré (la vérification du state refusera une redirection incomplète)
+		}
+	});
+	return params;
+}
+
+/***
+ * parseAuthorizationRedirect(url, expectedState)
+ *  Retourne le code d'autorisation, ou lance une AuthError :
+ *   * 'cancelled' : l'utilisateur a refusé (error=access_denied).
+ *   * 'providerError' : autre erreur du fournisseur, state différent (réponse qui n'est pas la nôtre), pas de code.
+ */
+export function parseAuthorizationRedirect(url: string, expectedState: string): string {
+	const params = redirectParams(url);
+	if (params.error === 'access_denied') throw new AuthError('cancelled');
+	if (params.error) throw new AuthError('providerError', { serverMessage: params.error_description ?? params.error });
+	if (params.state !== expectedState) throw new AuthError('providerError', { serverMessage: 'state mismatch' });
+	if (!params.code) throw new AuthError('providerError', { serverMessage: 'missing code' });
+	return params.code;
+}
+
+const defaultBrowser = createWebBrowser();
+
+/***
+ * authorizeWithProvider(provider, browser)
+ *  Déroule la partie "navigateur" du flow et retourne ce qu'il faut envoyer au backend (AuthClient.exchangeOAuthCode).
+ *  Fermeture du navigateur -> AuthError 'cancelled'.
+ */
+export async function authorizeWithProvider(
+	provider: OAuthProvider,
+	browser: OAuthBrowser = defaultBrowser,
+): Promise<OAuthCodeExchangeBody> {
+	const [{ codeVerifier, codeChallenge }, state] = await Promise.all([createPkce(), randomString(32)]);
+	const result = await browser.openAuthSession(buildAuthorizationUrl(provider, { state, codeChallenge }), provider.redirectUri);
+	if (result.type !== 'success') throw new AuthError('cancelled');
+
+	return {
+		provider: provider.id,
+		code: parseAuthorizationRedirect(result.url, state),
+		codeVerifier,
+		redirectUri: provider.redirectUri,
+	};
+}
@@ -0,0 +1,126 @@
+// passwordPolicy.ts
+// Politique de mot de passe configurable par app
+// - longueur minimale, classes de caractères, pas d'email/nom dans le mot de passe, liste noire
+// - score de robustesse (0 à 4) pour la jauge du formulaire d'inscription
+
+/***
+ * PasswordPolicy : règles à respecter à l'inscription (et à la réinitialisation).
+ *  * minLength : nombre minimum de caractères.
+ *  * requireLowercase / requireUppercase / requireDigit / requireSymbol : classes de caractères obligatoires.
+ *  * forbidPersonalInfo : refuse un mot de passe qui contient le nom ou le début de l'email.
+ *  * denyList : mots de passe trop courants (comparaison insensible à la casse).
+ */
+export type PasswordPolicy = {
+	minLength: number;
+	requireLowercase?: boolean;
+	requireUppercase?: boolean;
+	requireDigit?: boolean;
+	requireSymbol?: boolean;
+	forbidPersonalInfo?: boolean;
+	denyList?: string[];
+};
+
+export type PasswordRuleId = 'minLength' | 'lowercase' | 'uppercase' | 'digit' | 'symbol' | 'personalInfo' | 'common';
+
+// Le texte affiché vient du catalogue de traductions : clé `passwordRule.<id>` (voir locales/).
+export type PasswordRuleResult = {
+	id: PasswordRuleId;
+	passed: boolean;
+	params?: Record<string, number>; // valeurs à interpoler dans le texte (ex: { min: 8 })
+};
+
+// Infos personnelles à ne pas retrouver dans le mot de passe.
+export type PasswordContext = {
+	email?: string;
+	name?: string;
+};
+
+// Extrait des mots de passe les plus utilisés (à compléter par l'app si besoin).
+export const COMMON_PASSWORDS = [
+	'123456', '12345678', '123456789', '1234567890', '111111', '000000', '123123',
+	'password', 'password1', 'motdepasse', 'azerty', 'azertyuiop', 'qwerty', 'qwertyuiop',
+	'abc123', 'iloveyou', 'admin', 'welcome', 'letmein', 'monkey', 'dragon', 'football',
+	'soleil', 'bonjour', 'doudou', 'loulou', 'chouchou', 'marseille', 'nicolas', 'jetaime',
+];
+
+// Par défaut : même longueur qu'avant (6) + pas d'infos perso + pas de mot de passe courant.
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+	minLength: 6,
+	forbidPersonalInfo: true,
+	denyList: COMMON_PASSWORDS,
+};
+
+// Morceaux "personnels" : début de l'email (avant @) et chaque mot du nom, à partir de 3 lettres.
+const personalTokens = ({ email, name }: PasswordContext): string[] => {
+	const tokens = [email?.split('@')[0] ?? '', ...(name ?? '').split(/\s+/)];
+	return tokens.map(token => token.trim().toLowerCase()).filter(token => token.length >= 3);
+};
+
+/***
+ * checkPasswordPolicy(password, policy, context)
+ *  Retourne une ligne par règle active (dans l'ordre d'affichage de la checklist).
+ */
+export function checkPasswordPolicy(
+	password: string,
+	policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+	context: PasswordContext = {},
+): PasswordRuleResult[] {
+	const lower = password.toLowerCase();
+	const results: PasswordRuleResult[] = [
+		{ id: 'minLength', passed: password.length >= policy.minLength, params: { min: policy.minLength } },
+	];
+
+	if (policy.requireLowercase) {
+		results.push({ id: 'lowercase', passed: /[a-z]/.test(password) });
+	}
+	if (policy.requireUppercase) {
+		results.push({ id: 'uppercase', passed: /[A-Z]/.test(password) });
+	}
+	if (policy.requireDigit) {
+		results.push({ id: 'digit', passed: /\d/.test(password) });
+	}
+	if (policy.requireSymbol) {
+		results.push({ id: 'symbol', passed: /[^A-Za-z0-9]/.test(password) });
+	}
+	if (policy.forbidPersonalInfo) {
+		results.push({
+			id: 'personalInfo',
+			passed: !personalTokens(context).some(token => lower.includes(token)),
+		});
+	}
+	if (policy.denyList?.length) {
+		results.push({
+			id: 'common',
+			passed: !policy.denyList.some(common => common.toLowerCase() === lower),
+		});
+	}
+	return results;
+}
+
+// Première règle non respectée, ou null si tout est bon (sert de message d'erreur au champ).
+export function firstFailedRule(results: PasswordRuleResult[]): PasswordRuleResult | null {
+	return results.find(result => !result.passed) ?? null;
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+/***
+ * passwordStrength(password, results)
+ *  Estimation simple (pas un vrai calcul d'entropie) :
+ *   * +1 à partir de 8 caractères, +1 à partir de 12
+ *   * +1 si au moins 3 classes de caractères (minuscule, majuscule, chiffre, symbole), +1 si les 4
+ *  Un mot de passe qui ne respecte pas la politique plafonne à 1.
+ */
+export function passwordStrength(password: string, results: PasswordRuleResult[] = []): PasswordStrength {
+	if (!password) return 0;
+
+	const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(regex => regex.test(password)).length;
+	let score = 0;
+	if (password.length >= 8) score++;
+	if (password.length >= 12) score++;
+	if (classes >= 3) score++;
+	if (classes === 4) score++;
+
+	if (results.some(result => !result.passed)) score = Math.min(score, 1);
+	return score as PasswordStrength;
+}
@@ -0,0 +1,103 @@
+// registerFields.ts
+// Champs supplémentaires du formulaire d'inscription (téléphone, date de naissance, pseudo, code de parrainage...)
+// - décrits par une config typée : type de saisie, clavier, validation, place dans l'enchaînement "suivant"
+// - leurs valeurs sont ajoutées au corps de la requête register
+
+import type { KeyboardTypeOptions, TextInputProps } from 'react-native';
+import type { AsyncValidator, FormValues, Validator } from './validation';
+
+// Champs fixes de l'inscription, dans l'ordre d'affichage
+export type BuiltInRegisterField = 'name' | 'email' | 'password' | 'confirm';
+export const BUILT_IN_REGISTER_FIELDS: BuiltInRegisterField[] = ['name', 'email', 'password', 'confirm'];
+
+// Clés interdites aux champs supplémentaires : valeurs du formulaire (code de réinitialisation, code reçu par email)
+// et corps de la requête register. Un champ 'code' (parrainage...) serait écrasé par le code de réinitialisation.
+export const RESERVED_FIELD_KEYS: string[] = [...BUILT_IN_REGISTER_FIELDS, 'code', 'otp', 'consents', 'challenge'];
+
+/***
+ * ExtraFieldType : choisit le clavier et l'autoremplissage.
+ *  * text : texte libre (majuscule en début de phrase)
+ *  * username : pseudo (pas de majuscule ni de correction)
+ *  * phone : numéro de téléphone
+ *  * number : chiffres uniquement
+ *  * date : date saisie au clavier (ex: "1990-04-21")
+ *  * code : code de parrainage, d'invitation... (majuscules, pas de correction)
+ */
+export type ExtraFieldType = 'text' | 'username' | 'phone' | 'number' | 'date' | 'code';
+
+export type ExtraField = {
+	key: string;                          // clé dans le corps de la requête (ex: 'phone', 'referralCode'), hors RESERVED_FIELD_KEYS
+	label: string;
+	placeholder?: string;
+	accessibilityLabel?: string;          // défaut : le label
+	type?: ExtraFieldType;                // défaut : 'text'
+	keyboardType?: KeyboardTypeOptions;   // remplace le clavier choisi par `type`
+	initialValue?: string;
+	required?: string;                    // message si le champ est vide (absent = champ facultatif)
+	validate?: Validator<FormValues>[];   // reçoit la valeur + toutes les valeurs du formulaire
+	validateAsync?: AsyncValidator<FormValues>;
+	after?: BuiltInRegisterField | string; // place dans le formulaire (et la touche "suivant") : après ce champ. Défaut : à la fin
+	toPayload?: (value: string) => unknown; // valeur envoyée (ex: Number). Défaut : le texte sans espaces autour
+};
+
+// Réglages du TextInput selon le type de champ
+export const EXTRA_FIELD_INPUT: Record<
+	ExtraFieldType,
+	Pick<TextInputProps, 'keyboardType' | 'autoCapitalize' | 'autoCorrect' | 'textContentType' | 'autoComplete'>
+> = {
+	text: { autoCapitalize: 'sentences' },
+	username: { autoCapitalize: 'none', autoCorrect: false, textContentType: 'username', autoComplete: 'username' },
+	phone: { keyboardType: 'phone-pad', textContentType: 'telephoneNumber', autoComplete: 'tel' },
+	number: { keyboardType: 'number-pad', autoCorrect: false },
+	date: { keyboardType: 'numbers-and-punctuation', autoCorrect: false, autoComplete: 'birthdate-full' },
+	code: { autoCapitalize: 'characters', autoCorrect: false },
+};
+
+/***
+ * registerFieldOrder(extraFields)
+ *  Ordre complet des champs de l'inscription : ['name', 'email', 'phone', 'password', 'confirm', ...].
+ *  Un champ peut se placer après un champ fixe ou après un autre champ supplémentaire ;
+ *  plusieurs champs après la même ancre gardent l'ordre de la config, chacun suivi de sa propre chaîne
+ *  (A après email, B après A, C après email -> email, A, B, C).
+ *  Lance une erreur si une clé est réservée (voir RESERVED_FIELD_KEYS) : c'est une erreur de configuration.
+ */
+export function registerFieldOrder(extraFields: ExtraField[] = []): string[] {
+	const reserved = extraFields.filter(field => RESERVED_FIELD_KEYS.includes(field.key));
+	if (reserved.length > 0) {
+		throw new Error(`extraFields : clé réservée (${reserved.map(field => field.key).join(', ')}). Clés interdites : ${RESERVED_FIELD_KEYS.join(', ')}.`);
+	}
+
+	const following = new Map<string, string[]>(); // ancre -> champs placés après elle, dans l'ordre de la config
+	extraFields.forEach(field => {
+		if (field.after) following.set(field.after, [...(following.get(field.after) ?? []), field.key]);
+	});
+
+	// Un champ, puis toute sa chaîne, avant le champ suivant de la même ancre.
+	const order: string[] = [];
+	const place = (key: string) => {
+		if (order.includes(key)) return;
+		order.push(key);
+		(following.get(key) ?? []).forEach(place);
+	};
+	BUILT_IN_REGISTER_FIELDS.forEach(place);
+
+	// Sans `after` (ou avec une ancre inconnue) : à la fin, dans l'ordre de la config, suivis de leur chaîne.
+	const keys = [...BUILT_IN_REGISTER_FIELDS, ...extraFields.map(field => field.key)];
+	extraFields
+		.filter(field => !field.after || !keys.includes(field.after))
+		.forEach(field => place(field.key));
+	// Ancres en boucle (A après B, B après A) : à la fin.
+	extraFields.forEach(field => place(field.key));
+	return order;
+}
+
+// Valeurs à ajouter au corps de la requête register. Un champ facultatif laissé vide n'est pas envoyé.
+export function extraFieldsPayload(extraFields: ExtraField[], values: FormValues): Record<string, unknown> {
+	const payload: Record<string, unknown> = {};
+	extraFields.forEach(field => {
+		const value = (values[field.key] ?? '').trim();
+		if (!value) return;
+		payload[field.key] = field.toPayload ? field.toPayload(value) : value;
+	});
+	return payload;
+}
@@ -0,0 +1,114 @@
+// responseSchema.ts
+// Vérification à l'exécution des réponses du serveur
+// - TypeScript ne vérifie rien au runtime : un `post<AuthResponse>` fait confiance au backend
+// - un schéma décrit la forme attendue ; une réponse qui ne la respecte pas devient une AuthError 'unexpectedResponse'
+// - sans dépendance : quelques briques (string, number, object...) suffisent pour les réponses d'authentification
+
+import type { AuthResponse } from './AuthScreen';
+import { AuthError } from './authErrors';
+
+/***
+ * SchemaIssue : un écart entre la réponse et le schéma.
+ *  ex: { path: 'accessToken', message: "expected non-empty string, received ''" }
+ */
+export type SchemaIssue = { path: string; message: string };
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; issues: SchemaIssue[] };
+
+/***
+ * Schema<T> : fonction qui vérifie une valeur inconnue et retourne soit la donnée typée, soit la liste des écarts.
+ *  `path` : chemin de la valeur dans la réponse (pour les diagnostics), '' à la racine.
+ *  Une bibliothèque de schémas (zod...) s'adapte en une ligne :
+ *   ex: (value) => { const r = User.safeParse(value); return r.success ? r : { success: false, issues: r.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })) }; }
+ */
+export type Schema<T> = (value: unknown, path?: string) => SchemaResult<T>;
+
+// Type produit par un schéma : Infer<typeof userSchema>
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Description courte d'une valeur reçue (sans tout le contenu : un token n'a rien à faire dans les logs).
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (value === '') return "''";
+	return typeof value;
+}
+
+const fail = <T>(path: string, expected: string, value: unknown): SchemaResult<T> => ({
+	success: false,
+	issues: [{ path: path || '(root)', message: `expected ${expected}, received ${describe(value)}` }],
+});
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean): Schema<T> =>
+	(value, path = '') => (check(value) ? { success: true, data: value as T } : fail<T>(path, expected, value));
+
+export const string = () => primitive<string>('string', value => typeof value === 'string');
+export const nonEmptyString = () =>
+	primitive<string>('non-empty string', value => typeof value === 'string' && value.trim().length > 0);
+export const number = () => primitive<number>('number', value => typeof value === 'number' && !Number.isNaN(value));
+export const boolean = () => primitive<boolean>('boolean', value => typeof value === 'boolean');
+export const unknownValue = (): Schema<unknown> => (value) => ({ success: true, data: value });
+
+// Valeur absente : undefined ou null (beaucoup de backends renvoient null pour "pas de valeur").
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+	return (value, path) => (value === undefined || value === null ? { success: true, data: undefined } : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+	return (value, path = '') => {
+		if (!Array.isArray(value)) return fail(path, 'array', value);
+		const issues: SchemaIssue[] = [];
+		const data = value.map((entry, index) => {
+			const result = item(entry, `${path}[${index}]`);
+			if (!result.success) issues.push(...result.issues);
+			return result.success ? result.data : undefined;
+		});
+		return issues.length ? { success: false, issues } : { success: true, data: data as T[] };
+	};
+}
+
+/***
+ * object(shape)
+ *  Vérifie chaque clé décrite ; les clés en plus sont gardées telles quelles (un backend qui ajoute un champ ne casse rien).
+ *  ex: object({ id: number(), email: string(), roles: optional(array(string())) })
+ */
+export function object<S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+	return (value, path = '') => {
+		if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(path, 'object', value);
+		const input = value as Record<string, unknown>;
+		const issues: SchemaIssue[] = [];
+		const data: Record<string, unknown> = { ...input };
+		Object.keys(shape).forEach(key => {
+			const result = shape[key](input[key], path ? `${path}.${key}` : key);
+			if (result.success) data[key] = result.data;
+			else issues.push(...result.issues);
+		});
+		return issues.length ? { success: false, issues } : { success: true, data: data as { [K in keyof S]: Infer<S[K]> } };
+	};
+}
+
+/***
+ * authResponseSchema(userSchema)
+ *  Forme d'une AuthResponse : accessToken non vide, refreshToken, user (vérifié par userSchema s'il est fourni), message.
+ */
+export function authResponseSchema<TUser = unknown>(userSchema?: Schema<TUser>): Schema<AuthResponse<TUser>> {
+	return object({
+		accessToken: nonEmptyString(),
+		refreshToken: string(),
+		user: optional(userSchema ?? (unknownValue() as Schema<TUser>)),
+		message: optional(string()),
+	});
+}
+
+/***
+ * parseAuthResponse(data, userSchema)
+ *  Retourne la réponse typée, ou lance une AuthError 'unexpectedResponse' dont `diagnostics` liste les écarts
+ *  (ex: ["accessToken: expected non-empty string, received undefined"]). Le message à l'écran reste générique.
+ */
+export function parseAuthResponse<TUser = unknown>(data: unknown, userSchema?: Schema<TUser>): AuthResponse<TUser> {
+	const result = authResponseSchema(userSchema)(data);
+	if (result.success) return result.data;
+	throw new AuthError('unexpectedResponse', {
+		diagnostics: result.issues.map(issue => `${issue.path}: ${issue.message}`),
+	});
+}
@@ -0,0 +1,133 @@
+// sessionExpiry.ts
+// Surveillance de l'expiration de la session (exp de l'accessToken, voir jwt.ts)
+// - peu avant l'expiration : refresh anticipé (les requêtes suivantes partent avec un token valide)
+// - si le refresh est impossible ou échoue : événement 'expiring' (ex: prévenir avant un long formulaire)
+// - à l'expiration : événement 'expired'
+// - au retour de l'app au premier plan, l'échéance est recalculée (les timers sont suspendus en arrière-plan)
+
+import { AppState } from 'react-native';
+import type { SessionStore } from './sessionStore';
+
+/***
+ * SessionExpiryEvent :
+ *  * expiring : la session expire bientôt et n'a pas pu être renouvelée. remainingMs = temps restant.
+ *  * refreshed : renouvelée en avance ; expiresAt = nouvelle échéance.
+ *  * expired : l'accessToken est expiré (la prochaine requête tentera un refresh sur 401, ou l'utilisateur sera déconnecté).
+ */
+export type SessionExpiryEvent =
+	| { type: 'expiring'; expiresAt: number; remainingMs: number }
+	| { type: 'refreshed'; expiresAt: number | null }
+	| { type: 'expired'; expiresAt: number };
+
+export type SessionExpiryListener = (event: SessionExpiryEvent) => void;
+
+export type SessionExpiryOptions = {
+	// Refresh à lancer avant l'expiration (ex: () => refreshSession(store, http)). Absent : seulement les événements.
+	// Avec refreshSession, un refresh déjà lancé par l'intercepteur (401) est réutilisé : un seul appel, un seul 'refreshed'.
+	refresh?: () => Promise<unknown>;
+	// Combien de temps avant l'expiration agir (refresh, sinon 'expiring'). Défaut : 60 s.
+	beforeExpiryMs?: number;
+	onEvent: SessionExpiryListener;
+};
+
+export const DEFAULT_BEFORE_EXPIRY_MS = 60_000;
+
+// Plus long délai accepté par setTimeout (2^31 - 1 ms)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/***
+ * watchSessionExpiry(store, options)
+ *  Retourne une fonction qui arrête la surveillance (à appeler au démontage).
+ *  Une nouvelle échéance est planifiée à chaque changement de token (login, refresh, signOut).
+ */
+export function watchSessionExpiry(
+	store: SessionStore,
+	{ refresh, beforeExpiryMs = DEFAULT_BEFORE_EXPIRY_MS, onEvent }: SessionExpiryOptions,
+): () => void {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let scheduledFor: string | null = null; // accessToken surveillé
+	let warned = false;                     // 'expiring' déjà envoyé pour ce token
+	let expired = false;                    // 'expired' déjà envoyé pour ce token
+	let stopped = false;
+	// Refresh anticipé en cours : un check() lancé pendant ce temps (retour au premier plan, nouveau token...)
+	// attend le même appel au lieu d'en lancer un second, et seul le premier envoie 'refreshed'.
+	// Avec refreshSession (authInterceptors.ts), c'est aussi le refresh d'un 401 en cours.
+	let refreshing: { token: string; done: Promise<boolean> } | null = null;
+
+	const clear = () => {
+		if (timer) clearTimeout(timer);
+		timer = undefined;
+	};
+
+	// setTimeout déborde au-delà de MAX_TIMEOUT_MS (~24,8 jours) et se déclenche tout de suite :
+	// pour un token plus long, on se réveille plus tôt et check() replanifie la suite.
+	const schedule = (delayMs: number) => {
+		timer = setTimeout(check, Math.min(Math.max(0, delayMs), MAX_TIMEOUT_MS));
+	};
+
+	const check = async () => {
+		clear();
+		if (stopped) return;
+		const { accessToken, refreshToken, expiresAt } = store.getState();
+		if (!accessToken || expiresAt === null) return;
+		const token = accessToken;
+		const remaining = expiresAt - Date.now();
+
+		if (remaining <= 0) {
+			if (!expired) onEvent({ type: 'expired', expiresAt });
+			expired = true;
+			return;
+		}
+
+		if (remaining > beforeExpiryMs) {
+			schedule(remaining - beforeExpiryMs);
+			return;
+		}
+
+		// Dans la fenêtre avant expiration : d'abord un refresh, sinon prévenir une seule fois.
+		if (refresh && refreshToken && !warned) {
+			if (refreshing?.token === token) {
+				await refreshing.done;
+				return; // le check() qui a lancé le refresh s'occupe de l'événement et de la suite
+			}
+			// Réseau coupé, refreshToken refusé... (false) : on prévient, le 401 suivant décidera.
+			const current = { token, done: refresh().then(() => true, () => false) };
+			refreshing = current;
+			const refreshed = await current.done;
+			if (refreshing === current) refreshing = null;
+			if (stopped) return;
+			if (refreshed && store.getState().accessToken !== token) {
+				onEvent({ type: 'refreshed', expiresAt: store.getState().expiresAt });
+				return; // le changement de token a déjà replanifié la surveillance
+			}
+			if (store.getState().accessToken !== token) return;
+		}
+		if (!warned) {
+			warned = true;
+			onEvent({ type: 'expiring', expiresAt, remainingMs: Math.max(0, expiresAt - Date.now()) });
+		}
+		schedule(expiresAt - Date.now());
+	};
+
+	const unsubscribe = store.subscribe(({ accessToken }) => {
+		if (accessToken === scheduledFor) return;
+		scheduledFor = accessToken;
+		warned = false;
+		expired = false;
+		check();
+	});
+
+	const appState = AppState.addEventListener('change', status => {
+		if (status === 'active') check();
+	});
+
+	scheduledFor = store.getState().accessToken;
+	check();
+
+	return () => {
+		stopped = true;
+		clear();
+		unsubscribe();
+		appState.remove();
+	};
+}
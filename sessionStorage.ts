@@ -0,0 +1,41 @@
+// sessionStorage.ts
+// Adaptateurs de stockage pour la session (tokens + user)
+// - SecureStore sur téléphone (chiffré par le système)
+// - Mémoire pour les tests ou le web
+
+import * as SecureStore from 'expo-secure-store';
+
+/***
+ * StorageAdapter : contrat minimal qu'un stockage doit respecter.
+ * Toutes les méthodes sont async, comme SecureStore / AsyncStorage, pour pouvoir changer d'implémentation sans toucher au reste.
+ */
+export type StorageAdapter = {
+	getItem: (key: string) => Promise<string | null>;
+	setItem: (key: string, value: string) => Promise<void>;
+	removeItem: (key: string) => Promise<void>;
+};
+
+// Stockage en mémoire : tout est perdu au redémarrage de l'app (pratique pour les tests).
+export function createMemoryStorage(initial: Record<string, string> = {}): StorageAdapter {
+	const data = new Map<string, string>(Object.entries(initial));
+
+	return {
+		getItem: async (key) => data.get(key) ?? null,
+		setItem: async (key, value) => {
+			data.set(key, value);
+		},
+		removeItem: async (key) => {
+			data.delete(key);
+		},
+	};
+}
+
+// Stockage sécurisé : Keychain sur iOS, Keystore sur Android.
+// Attention : SecureStore n'accepte que [A-Za-z0-9._-] dans les clés.
+export function createSecureStorage(): StorageAdapter {
+	return {
+		getItem: (key) => SecureStore.getItemAsync(key),
+		setItem: (key, value) => SecureStore.setItemAsync(key, value),
+		removeItem: (key) => SecureStore.deleteItemAsync(key),
+	};
+}
@@ -0,0 +1,135 @@
+// sessionStore.ts
+// Store de session indépendant de React
+// - garde les tokens + user en mémoire
+// - les persiste via un StorageAdapter (voir sessionStorage.ts)
+// - prévient les abonnés à chaque changement
+
+import type { AuthResponse } from './AuthScreen';
+import type { StorageAdapter } from './sessionStorage';
+import { decodeJwt, isTokenExpired, type JwtClaims } from './jwt';
+
+/***
+ * SessionStatus :
+ *  * 'loading' : on n'a pas encore relu le stockage (au démarrage de l'app).
+ *  * 'authenticated' : des tokens sont présents.
+ *  * 'unauthenticated' : pas de session (jamais connecté ou signOut).
+ */
+export type SessionStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+// TUser : type de l'utilisateur choisi par l'app (voir AuthResponse). Le store lui-même ne le connaît pas (unknown).
+export type SessionState<TUser = unknown> = {
+	status: SessionStatus;
+	accessToken: string | null;
+	refreshToken: string | null;
+	user: TUser | null;
+	// Lus dans l'accessToken (JWT, voir jwt.ts). null si le token n'est pas un JWT ou n'a pas d'expiration.
+	claims: JwtClaims | null;
+	expiresAt: number | null;   // en ms (comme Date.now())
+};
+
+export type SessionListener = (state: SessionState) => void;
+
+export type SessionStore = {
+	getState: () => SessionState;
+	subscribe: (listener: SessionListener) => () => void; // retourne la fonction de désabonnement
+	restore: () => Promise<SessionState>;
+	signIn: (payload: AuthResponse) => Promise<void>;
+	signOut: () => Promise<void>;
+	setTokens: (tokens: SessionTokens) => Promise<void>; // après un refresh : remplace les tokens sans toucher au user
+	isExpired: (leewayMs?: number) => boolean;          // accessToken expiré (ou qui expire dans leewayMs)
+};
+
+export type SessionTokens = {
+	accessToken: string;
+	refreshToken?: string; // certains backends ne renvoient pas de nouveau refreshToken : on garde l'ancien
+};
+
+// Clé par défaut dans le stockage (compatible avec les contraintes de SecureStore).
+export const DEFAULT_SESSION_KEY = 'auth.session';
+
+const EMPTY_SESSION: SessionState = {
+	status: 'unauthenticated',
+	accessToken: null,
+	refreshToken: null,
+	user: null,
+	claims: null,
+	expiresAt: null,
+};
+
+// Ce qui est réellement écrit dans le stockage (le status se déduit des tokens).
+type PersistedSession = Pick<SessionState, 'accessToken' | 'refreshToken' | 'user'>;
+
+export function createSessionStore(storage: StorageAdapter, storageKey: string = DEFAULT_SESSION_KEY): SessionStore {
+	let state: SessionState = { ...EMPTY_SESSION, status: 'loading' };
+	const listeners = new Set<SessionListener>();
+
+	// claims et expiresAt se déduisent de l'accessToken : recalculés à chaque changement.
+	const setState = (next: Omit<SessionState, 'claims' | 'expiresAt'>) => {
+		const claims = decodeJwt(next.accessToken);
+		state = { ...next, claims, expiresAt: claims?.exp !== undefined ? claims.exp * 1000 : null };
+		listeners.forEach(listener => listener(state));
+	};
+
+	const restore = async () => {
+		try {
+			const raw = await storage.getItem(storageKey);
+			const saved: PersistedSession | null = raw ? JSON.parse(raw) : null;
+
+			if (saved?.accessToken) {
+				setState({
+					status: 'authenticated',
+					accessToken: saved.accessToken,
+					refreshToken: saved.refreshToken ?? null,
+					user: saved.user ?? null,
+				});
+			} else {
+				setState(EMPTY_SESSION);
+			}
+		} catch {
+			// Stockage illisible (JSON corrompu, Keychain verrouillé...) : on repart d'une session vide.
+			setState(EMPTY_SESSION);
+		}
+		return state;
+	};
+
+	const signIn = async (payload: AuthResponse) => {
+		const saved: PersistedSession = {
+			accessToken: payload.accessToken,
+			refreshToken: payload.refreshToken,
+			user: payload.user ?? null,
+		};
+		await storage.setItem(storageKey, JSON.stringify(saved));
+		setState({ status: 'authenticated', ...saved });
+	};
+
+	const setTokens = async ({ accessToken, refreshToken }: SessionTokens) => {
+		const saved: PersistedSession = {
+			accessToken,
+			refreshToken: refreshToken ?? state.refreshToken,
+			user: state.user,
+		};
+		await storage.setItem(storageKey, JSON.stringify(saved));
+		setState({ status: 'authenticated', ...saved });
+	};
+
+	const signOut = async () => {
+		// On vide l'état même si le stockage échoue : l'utilisateur doit être déconnecté quoi qu'il arrive.
+		setState(EMPTY_SESSION);
+		await storage.removeItem(storageKey);
+	};
+
+	return {
+		getState: () => state,
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		restore,
+		signIn,
+		signOut,
+		setTokens,
+		isExpired: (leewayMs) => isTokenExpired(state.accessToken, Date.now(), leewayMs),
+	};
+}
@@ -0,0 +1,110 @@
+// theme.ts
+// Design tokens partagés par les composants : couleurs, arrondis, espacements, typographie
+// - deux presets : lightTheme et darkTheme
+// - createTheme() pour partir d'un preset et ne changer que quelques valeurs (couleur de la marque...)
+
+import type { TextStyle } from 'react-native';
+
+export type ThemeColors = {
+	background: string;      // fond de l'écran
+	surface: string;         // fond des champs
+	text: string;
+	textMuted: string;       // sous-titres, textes secondaires
+	placeholder: string;
+	border: string;
+	primary: string;         // bouton principal, liens
+	onPrimary: string;       // texte/spinner posé sur primary
+	disabled: string;        // bouton désactivé
+	danger: string;          // erreurs
+	warning: string;
+	success: string;
+};
+
+type TypographyToken = Pick<TextStyle, 'fontSize' | 'fontWeight' | 'lineHeight' | 'fontFamily'>;
+
+export type Theme = {
+	dark: boolean;
+	colors: ThemeColors;
+	radii: { sm: number; md: number; lg: number };
+	spacing: { xs: number; sm: number; md: number; lg: number; xl: number };
+	typography: {
+		title: TypographyToken;
+		subtitle: TypographyToken;
+		body: TypographyToken;
+		label: TypographyToken;
+		caption: TypographyToken;
+		button: TypographyToken;
+	};
+};
+
+// Valeurs reprises des styles d'origine d'AuthScreen.
+const radii: Theme['radii'] = { sm: 4, md: 8, lg: 12 };
+const spacing: Theme['spacing'] = { xs: 4, sm: 8, md: 15, lg: 20, xl: 24 };
+const typography: Theme['typography'] = {
+	title: { fontSize: 24, fontWeight: 'bold' },
+	subtitle: { fontSize: 16 },
+	body: { fontSize: 16 },
+	label: { fontSize: 14, fontWeight: '500' },
+	caption: { fontSize: 13 },
+	button: { fontSize: 16, fontWeight: '600' },
+};
+
+export const lightTheme: Theme = {
+	dark: false,
+	colors: {
+		background: '#ffffff',
+		surface: '#ffffff',
+		text: '#111111',
+		textMuted: '#666666',
+		placeholder: '#999999',
+		border: '#cccccc',
+		primary: '#007bff',
+		onPrimary: '#ffffff',
+		disabled: '#aaaaaa',
+		danger: '#d32f2f',
+		warning: '#f57c00',
+		success: '#2e7d32',
+	},
+	radii,
+	spacing,
+	typography,
+};
+
+export const darkTheme: Theme = {
+	dark: true,
+	colors: {
+		background: '#121212',
+		surface: '#1e1e1e',
+		text: '#f2f2f2',
+		textMuted: '#a0a0a0',
+		placeholder: '#777777',
+		border: '#3a3a3a',
+		primary: '#4da3ff',
+		onPrimary: '#0b1a2b',
+		disabled: '#555555',
+		danger: '#ef5350',
+		warning: '#ffb74d',
+		success: '#66bb6a',
+	},
+	radii,
+	spacing,
+	typography,
+};
+
+// Surcharge partielle d'un thème (chaque groupe de tokens est fusionné, pas remplacé).
+export type ThemeOverrides = {
+	colors?: Partial<ThemeColors>;
+	radii?: Partial<Theme['radii']>;
+	spacing?: Partial<Theme['spacing']>;
+	typography?: Partial<Theme['typography']>;
+};
+
+export function createTheme(base: Theme, overrides: ThemeOverrides = {}): Theme {
+	return {
+		dark: base.dark,
+		colors: { ...base.colors, ...overrides.colors },
+		radii: { ...base.radii, ...overrides.radii },
+		spacing: { ...base.spacing, ...overrides.spacing },
+		typography: { ...base.typography, ...overrides.typography },
+	};
+}
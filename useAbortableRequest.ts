@@ -0,0 +1,75 @@
+// useAbortableRequest.ts
+// Une requête à la fois, annulable
+// - begin() annule la requête précédente et en démarre une nouvelle (AbortController + délai maximum)
+// - abort() annule la requête en cours (ex: changement de mode)
+// - tout est annulé au démontage de l'écran : plus de setState sur un composant démonté
+
+import { useCallback, useEffect, useRef } from 'react';
+import { AuthError } from './authErrors';
+
+type PendingRequest = {
+	controller: AbortController;
+	timer?: ReturnType<typeof setTimeout>;
+	timedOut: boolean;
+};
+
+export type AbortableRequest = {
+	signal: AbortSignal;
+	// Attend la promesse, mais rejette dès que la requête est annulée ou dépasse le délai
+	// (même si le client ignore `signal`). Le délai dépassé devient une AuthError 'timeout'.
+	run: <T>(promise: Promise<T>) => Promise<T>;
+	// true si la requête a été annulée (démontage, changement de mode) : son résultat doit être ignoré.
+	isCancelled: () => boolean;
+	// À appeler dans le finally : arrête le minuteur.
+	end: () => void;
+};
+
+// timeoutMs : délai maximum d'une requête (0 = pas de délai).
+// begin(timeout) : délai propre à cette requête (ex: 0 pendant que l'utilisateur est sur la page d'un fournisseur OAuth).
+export function useAbortableRequest(timeoutMs: number) {
+	const current = useRef<PendingRequest | null>(null);
+
+	const abort = useCallback(() => {
+		const request = current.current;
+		if (!request) return;
+		current.current = null;
+		if (request.timer) clearTimeout(request.timer);
+		request.controller.abort();
+	}, []);
+
+	useEffect(() => abort, [abort]);
+
+	const begin = useCallback((timeout: number = timeoutMs): AbortableRequest => {
+		abort();
+
+		const request: PendingRequest = { controller: new AbortController(), timedOut: false };
+		if (timeout > 0) {
+			request.timer = setTimeout(() => {
+				request.timedOut = true;
+				request.controller.abort();
+			}, timeout);
+		}
+		current.current = request;
+
+		const { signal } = request.controller;
+
+		return {
+			signal,
+			run: (promise) =>
+				new Promise((resolve, reject) => {
+					const onAbort = () =>
+						reject(request.timedOut ? new AuthError('timeout') : new AuthError('unknown', { serverMessage: 'aborted' }));
+					if (signal.aborted) return onAbort();
+					signal.addEventListener('abort', onAbort);
+					promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+				}),
+			isCancelled: () => signal.aborted && !request.timedOut,
+			end: () => {
+				if (request.timer) clearTimeout(request.timer);
+				if (current.current === request) current.current = null;
+			},
+		};
+	}, [abort, timeoutMs]);
+
+	return { begin, abort };
+}
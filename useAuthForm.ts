@@ -0,0 +1,1449 @@
+// useAuthForm.ts
+// Logique de l'écran d'authentification, sans interface ("headless")
+// - état des champs, validation, étapes (login, inscription, connexion par code, mot de passe oublié, deux étapes, confirmation de l'email)
+// - appels au serveur via l'AuthClient, session, limitation des tentatives, état du réseau
+// - AuthScreen n'est qu'une interface par défaut construite dessus : un écran maison garde le même comportement avec son propre rendu
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, BackHandler, Linking } from 'react-native';
+import { useOptionalSession } from './AuthProvider';
+import { useAuthClient } from './AuthClientProvider';
+import {
+	createHttpAuthClient,
+	isMfaChallenge,
+	isVerificationPending,
+	type AuthClient,
+	type AuthEndpoints,
+	type EmailVerificationPending,
+	type MfaChallenge,
+	type VerifyLoginCodeBody,
+} from './authClient';
+import type { AuthResponse } from './AuthScreen';
+import { useCountdown } from './useCountdown';
+import { DEFAULT_THROTTLE_KEY, DEFAULT_THROTTLE_POLICY, useLoginThrottle, type ThrottlePolicy } from './loginThrottle';
+import { createSecureStorage, type StorageAdapter } from './sessionStorage';
+import { useAbortableRequest, type AbortableRequest } from './useAbortableRequest';
+import { createNetInfoConnectivity, useConnectivity, type ConnectivityAdapter } from './connectivity';
+import {
+	checkPasswordPolicy,
+	DEFAULT_PASSWORD_POLICY,
+	firstFailedRule,
+	type PasswordPolicy,
+} from './passwordPolicy';
+import { extraFieldsPayload, registerFieldOrder, type ExtraField } from './registerFields';
+import { buildConsentRecord, hasRequiredConsents, type ConsentItem } from './consents';
+import { parseAuthResponse, type Schema } from './responseSchema';
+import { authorizeWithProvider, type OAuthBrowser, type OAuthProvider } from './oauth';
+import {
+	DEFAULT_CHALLENGE_POLICY,
+	isChallengeRequired,
+	type ChallengeAction,
+	type ChallengePolicy,
+	type ChallengeProvider,
+	type ChallengeToken,
+} from './challenge';
+import { useAuthEvents, type AuthEventListener, type AuthMethod, type IdentifierHasher } from './authEvents';
+import { useTranslation } from './i18n';
+import { AuthError, toAuthError } from './authErrors';
+import {
+	email as emailRule,
+	matches,
+	required,
+	useFormValidation,
+	type FieldErrors,
+	type FormRules,
+} from './validation';
+
+export type AuthFormOptions<TUser = unknown> = {
+	//callback optionnelle à appeler en cas de succés (ex: enregistrer les tokens, naviguer)
+	//Si le compte demande une vérification en deux étapes, elle n'est appelée qu'après la validation du code.
+	//Si l'email doit être confirmé (inscription, ou login d'un compte pas encore confirmé), seulement après la confirmation.
+	onAuthSuccess?: (payload: AuthResponse<TUser>) => void;
+	
+	//C'est une fonction optionne (le ?). ELle est fourni, elle prend en entrée un payload de type AuthResponse
+	//El ne retourne rien => void
+	//En pratique, ca sert à transmettre les tokens au parents (ex: stocker en mémoire et naviguer vers une autre page)
+	apiBaseUrl?: string;
+	//Permet de surcharger l'URL de base au besoin
+	//c'est une chaîne optionnelle.
+	//Utilisée pour créer le client HTTP par défaut, quand ni `client` ni <AuthClientProvider> ne sont fournis.
+	//Si on veux tester une autre API (rx. serveur de prod,) tu peux passer une autre URL.
+
+	//Chemins des endpoints pour le client par défaut (ex: { login: '/v2/sessions' }).
+	//Défaut : /auth/login, /auth/register, /auth/refresh, /auth/forgot-password, /auth/reset-password... (voir DEFAULT_AUTH_ENDPOINTS).
+	endpoints?: Partial<AuthEndpoints>;
+
+	//Client d'authentification à utiliser (prioritaire sur le contexte et sur apiBaseUrl).
+	//En test : un objet qui respecte AuthClient, sans serveur.
+	client?: AuthClient;
+
+	//Vérification asynchrone à l'inscription : retourne false si l'email est déjà utilisé.
+	//Appelée après chaque frappe (avec un délai), seulement quand l'email a un format valide.
+	checkEmailAvailable?: (email: string) => Promise<boolean>;
+
+	//Règles du mot de passe à l'inscription et à la réinitialisation (voir passwordPolicy.ts).
+	//Par défaut : 6 caractères minimum, sans nom/email, pas un mot de passe courant.
+	//ex: passwordPolicy={{ minLength: 12, requireUppercase: true, requireDigit: true, requireSymbol: true }}
+	passwordPolicy?: PasswordPolicy;
+
+	//Langue de l'écran ('fr', 'en', ou toute langue ajoutée via <I18nProvider catalogs={...}>).
+	//Si absent : la langue de l'I18nProvider, sinon 'fr'.
+	locale?: string;
+
+	//Schéma de l'utilisateur renvoyé par le serveur (voir responseSchema.ts). La réponse entière est toujours vérifiée
+	//(accessToken non vide, refreshToken...) ; avec userSchema, `user` l'est aussi, sinon il est passé tel quel.
+	//Réponse invalide -> erreur "réponse inattendue", détails dans error.diagnostics (voir mapError).
+	//ex: userSchema={object({ id: number(), email: string(), name: optional(string()) })}
+	userSchema?: Schema<TUser>;
+
+	//Message personnalisé pour une erreur (voir authErrors.ts pour les codes).
+	//Retourner undefined pour garder le message traduit par défaut.
+	//ex: mapError={(e) => e.code === 'accountLocked' ? 'Contacte le support au 01 23 45 67 89.' : undefined}
+	mapError?: (error: AuthError) => string | undefined;
+
+	//Pendant l'attente de confirmation de l'email : intervalle (ms) entre deux vérifications auprès du serveur.
+	//0 = pas de polling (seulement le lien de confirmation et le bouton "J'ai confirmé").
+	verificationPollInterval?: number;
+
+	//Délais entre les tentatives après des échecs consécutifs, et blocage temporaire (voir loginThrottle.ts).
+	//ex: throttlePolicy={{ freeAttempts: 5, lockAfter: 20 }}
+	throttlePolicy?: Partial<ThrottlePolicy>;
+
+	//Où garder le compteur d'échecs entre deux lancements de l'app. Par défaut : SecureStore.
+	throttleStorage?: StorageAdapter;
+
+	//Protection anti-robots (captcha) : épreuve à l'inscription et au login après plusieurs échecs, voir challenge.ts.
+	//ex: challenge={createLocalChallenge()} en développement, un fournisseur réel (hCaptcha, Turnstile...) en production.
+	challenge?: ChallengeProvider;
+
+	//Quand demander l'épreuve. Défaut : à chaque inscription, et au login à partir de 3 échecs consécutifs.
+	challengePolicy?: Partial<ChallengePolicy>;
+
+	//Délai maximum (ms) d'une requête avant d'afficher "le serveur n'a pas répondu". 0 = pas de délai.
+	requestTimeout?: number;
+
+	//Source de l'état du réseau (bandeau "hors ligne", bouton désactivé). Par défaut : NetInfo.
+	//En test : createFakeConnectivity() (voir connectivity.ts).
+	connectivity?: ConnectivityAdapter;
+
+	//Champs supplémentaires à l'inscription (téléphone, date de naissance...), voir registerFields.ts.
+	//Leurs valeurs sont ajoutées au corps de la requête register.
+	//ex: extraFields={[{ key: 'phone', label: 'Téléphone', type: 'phone', after: 'email', required: 'Numéro obligatoire.' }]}
+	extraFields?: ExtraField[];
+
+	//Cases à cocher de l'inscription (conditions, confidentialité, newsletter...), voir consents.ts.
+	//Le bouton reste désactivé tant qu'une case obligatoire n'est pas cochée.
+	//Le corps de la requête register reçoit `consents` : versions acceptées + date.
+	consents?: ConsentItem[];
+
+	//Boutons "Continuer avec Google / Apple / GitHub..." (OAuth 2.0 + PKCE, voir oauth.ts).
+	//Le code reçu est échangé par le backend (AuthClient.exchangeOAuthCode), qui retourne une AuthResponse comme un login.
+	//ex: oauthProviders={[{ id: 'google', label: 'Google', authorizationEndpoint: '...', clientId: '...', redirectUri: 'monapp://oauth/callback' }]}
+	oauthProviders?: OAuthProvider[];
+
+	//Navigateur utilisé pour la page du fournisseur. Par défaut : expo-web-browser.
+	//En test : un objet qui respecte OAuthBrowser (ex: il appelle un serveur d'autorisation local et renvoie l'URL de redirection).
+	oauthBrowser?: OAuthBrowser;
+
+	//Événements du parcours (écran affiché, envoi, succès, échec avec son code...) pour l'analytics, voir authEvents.ts.
+	//ex: onEvent={toAnalytics(segment)}. Aucun mot de passe ni email en clair.
+	onEvent?: AuthEventListener;
+
+	//Hachage de l'email pour rattacher les événements d'un même utilisateur (ex: SHA-256 salé). Absent : pas d'identifiant.
+	hashIdentifier?: IdentifierHasher;
+
+	//Mode affiché à l'ouverture (ex: 'register' depuis un lien "Créer un compte"). Défaut : 'login'.
+	//Le bouton retour Android ramène à ce mode avant de quitter l'écran.
+	initialMode?: AuthMode;
+
+	//Mode contrôlé par l'app (ex: paramètre de la route) : l'écran ne change plus de mode lui-même,
+	//il appelle onModeChange(mode) et attend la nouvelle valeur. Le retour entre modes est alors géré par la navigation.
+	//ex: mode={route.params.mode} onModeChange={mode => navigation.push('Auth', { mode })}
+	mode?: AuthMode;
+	onModeChange?: (mode: AuthMode) => void;
+
+	//Bouton retour Android : revient à l'étape précédente (code, réinitialisation, mode de départ) au lieu de quitter l'écran.
+	//false = l'app gère elle-même le retour (voir `back` dans le retour du hook).
+	handleHardwareBack?: boolean;
+
+	//L'écran est-il au premier plan de la navigation ? Défaut : true.
+	//Dans une pile (React Navigation), l'écran reste monté sous l'écran suivant : sans ce flag, le bouton retour
+	//de l'écran du dessus changerait le formulaire caché au lieu de revenir en arrière.
+	//ex: focused={useIsFocused()}
+	focused?: boolean;
+};
+
+
+// Valeurs du formulaire (toutes les étapes confondues)
+export type AuthValues = {
+	name: string;
+	email: string;
+	password: string;
+	confirm: string;
+	code: string;
+	otp: string;   // code reçu : vérification en deux étapes (ou code de secours), connexion sans mot de passe
+	[extra: string]: string; // champs supplémentaires de l'inscription, par clé (voir registerFields.ts)
+};
+
+// Pas de champs supplémentaires / de consentements (références stables pour les useMemo)
+const NO_EXTRA_FIELDS: ExtraField[] = [];
+const NO_CONSENTS: ConsentItem[] = [];
+const NO_OAUTH_PROVIDERS: OAuthProvider[] = [];
+
+// Valeurs de départ des champs supplémentaires
+const initialExtraValues = (fields: ExtraField[]) =>
+	Object.fromEntries(fields.map(field => [field.key, field.initialValue ?? '']));
+
+// Longueur du code de vérification en deux étapes
+export const OTP_LENGTH = 6;
+// Délai par défaut avant de pouvoir redemander un code, si le serveur ne le précise pas
+const DEFAULT_RESEND_DELAY = 30;
+// Même chose pour les emails (confirmation, code de connexion), et intervalle du polling
+const DEFAULT_EMAIL_RESEND_DELAY = 60;
+const DEFAULT_VERIFICATION_POLL_INTERVAL = 5000;
+
+// Stockage du compteur d'échecs et état du réseau si l'app ne les fournit pas (créés une seule fois)
+const defaultThrottleStorage = createSecureStorage();
+const defaultConnectivity = createNetInfoConnectivity();
+
+// Lien de lancement de l'app déjà traité (voir le useEffect de Linking)
+let handledInitialUrl: string | null = null;
+
+// Délai maximum d'une requête par défaut
+const DEFAULT_REQUEST_TIMEOUT = 15000;
+
+/***
+ * Réinitialisation du mot de passe :
+ *  * 'request' : l'utilisateur saisit son email -> POST /auth/forgot-password
+ *  * 'reset' : il saisit le code reçu (ou l'ouvre via le lien) + le nouveau mot de passe -> POST /auth/reset-password
+ *  * null : écran normal Login/Register
+ */
+export type ResetStep = 'request' | 'reset' | null;
+
+// Paramètres d'un lien : "monapp://reset-password?code=123456" -> { code: '123456' }
+// Un paramètre mal encodé (lien tronqué ou forgé, ex: "%E0%A4%A") est ignoré : decodeURIComponent lèverait une URIError.
+function parseLinkParams(url: string): Record<string, string> {
+	const query = url.split('?')[1] ?? '';
+	const params: Record<string, string> = {};
+	query.split('&').forEach(pair => {
+		const [key, value = ''] = pair.split('=');
+		if (!key) return;
+		try {
+			params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+		} catch {
+			// paramètre ignoré
+		}
+	});
+	return params;
+}
+
+// Lit un lien du type "monapp://reset-password?code=123456&email=pol@mail.com".
+// Retourne null si ce n'est pas un lien de réinitialisation.
+export function parseResetLink(url: string | null): { code: string; email?: string } | null {
+	if (!url || !/reset-password/.test(url)) return null;
+	const params = parseLinkParams(url);
+	return params.code ? { code: params.code, email: params.email } : null;
+}
+
+// Lit un lien de confirmation du type "monapp://verify-email?token=abc123".
+// Retourne null si ce n'est pas un lien de confirmation.
+export function parseVerifyEmailLink(url: string | null): { token: string } | null {
+	if (!url || !/verify-email/.test(url)) return null;
+	const params = parseLinkParams(url);
+	return params.token ? { token: params.token } : null;
+}
+
+// Lit un lien de connexion sans mot de passe : "monapp://login-link?token=abc123"
+// ou "monapp://login-link?code=123456&email=pol@mail.com". Retourne null si ce n'est pas un lien de connexion.
+export function parseLoginLink(url: string | null): VerifyLoginCodeBody | null {
+	if (!url || !/login-link/.test(url)) return null;
+	const params = parseLinkParams(url);
+	if (params.token) return { token: params.token };
+	return params.code && params.email ? { email: params.email, code: params.code } : null;
+}
+
+// Lit un lien vers l'écran : "monapp://auth/register?email=pol@mail.com" (ou "https://monsite.com/auth/register?...").
+// Chemins : auth/login, auth/register, auth/passwordless, auth/forgot-password. Retourne null si ce n'est pas un lien vers l'écran.
+// prefill : paramètres du lien ; seuls name, email et les champs supplémentaires sont repris (jamais de mot de passe).
+export function parseAuthLink(url: string | null): AuthLink | null {
+	const match = url?.match(/\bauth\/(login|register|passwordless|forgot-password)(?=[/?#]|$)/);
+	if (!url || !match) return null;
+	const prefill = parseLinkParams(url);
+	return match[1] === 'forgot-password'
+		? { mode: 'login', forgotPassword: true, prefill }
+		: { mode: match[1] as AuthMode, forgotPassword: false, prefill };
+}
+
+export type AuthLink = {
+	mode: AuthMode;
+	forgotPassword: boolean;            // ouvre directement "Mot de passe oublié"
+	prefill: Record<string, string>;
+};
+
+/***
+ * AuthMode : écran choisi par l'utilisateur (bascule en bas de l'écran).
+ *  * 'login' : email + mot de passe
+ *  * 'register' : création de compte
+ *  * 'passwordless' : email seul, le serveur envoie un code (et un lien) pour se connecter
+ */
+export type AuthMode = 'login' | 'register' | 'passwordless';
+
+// Résultat de submit() (voir onSubmit)
+export type SubmitResult = 'sent' | 'invalid' | 'unavailable';
+
+/***
+ * AuthStep : étape affichée (sert aussi de préfixe aux clés de traduction, ex: 'login' -> 'login.title').
+ *  'passwordless.request' : saisie de l'email ; 'passwordless.code' : attente du code ou du lien.
+ */
+export type AuthStep =
+	| 'login'
+	| 'register'
+	| 'passwordless.request'
+	| 'passwordless.code'
+	| 'reset.request'
+	| 'reset.reset'
+	| 'mfa'
+	| 'verify';
+
+/***
+ * FieldBinding : tout ce qu'il faut pour brancher un champ sur un TextInput.
+ *  ex: <TextInput value={fields.email.value} onChangeText={fields.email.onChangeText} onBlur={fields.email.onBlur} />
+ */
+export type FieldBinding = {
+	value: string;
+	onChangeText: (value: string) => void;
+	onBlur: () => void;      // marque le champ comme "touché" : son erreur s'affiche
+	error?: string;          // message à afficher sous le champ
+	visible: boolean;        // le champ fait partie de l'étape en cours
+};
+
+export function useAuthForm<TUser = unknown>({
+	onAuthSuccess,
+	apiBaseUrl,
+	endpoints,
+	client: clientProp,
+	checkEmailAvailable,
+	passwordPolicy = DEFAULT_PASSWORD_POLICY,
+	locale,
+	mapError,
+	verificationPollInterval = DEFAULT_VERIFICATION_POLL_INTERVAL,
+	throttlePolicy,
+	throttleStorage = defaultThrottleStorage,
+	challenge: challengeProvider,
+	challengePolicy,
+	requestTimeout = DEFAULT_REQUEST_TIMEOUT,
+	connectivity = defaultConnectivity,
+	extraFields = NO_EXTRA_FIELDS,
+	consents = NO_CONSENTS,
+	oauthProviders = NO_OAUTH_PROVIDERS,
+	oauthBrowser,
+	userSchema,
+	onEvent,
+	hashIdentifier,
+	initialMode = 'login',
+	mode: controlledMode,
+	onModeChange,
+	handleHardwareBack = true,
+	focused = true,
+}: AuthFormOptions<TUser> = {}) {
+	// Traductions des messages (erreurs, validation, alertes)
+	const { t } = useTranslation(locale);
+
+	// Étatd du formulaire
+	// Mode : connexion, création de compte, ou connexion par code. Interne, ou contrôlé par l'app (prop `mode`).
+	const [ownMode, setOwnMode] = useState<AuthMode>(initialMode);
+	const mode = controlledMode ?? ownMode;
+	const currentMode = useRef(mode);
+	const requestedMode = useRef(mode);   // dernier mode demandé par l'écran (pour reconnaître un changement venu de l'app)
+	const modeChangeListener = useRef(onModeChange);
+	currentMode.current = mode;
+	modeChangeListener.current = onModeChange;
+	const setMode = useCallback((next: AuthMode) => {
+		if (next === currentMode.current) return;
+		currentMode.current = next;
+		requestedMode.current = next;
+		setOwnMode(next);
+		modeChangeListener.current?.(next);
+	}, []);
+	const [name, setName] = useState('');
+	const [email, setEmail] = useState('');
+	const [password, setPassword] = useState('');
+	const [confirm, setConfirm] = useState('');
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [resetStep, setResetStep] = useState<ResetStep>(null);
+	const [resetCode, setResetCode] = useState('');
+	const [extraValues, setExtraValues] = useState<Record<string, string>>(() => initialExtraValues(extraFields));
+	const [acceptedConsents, setAcceptedConsents] = useState<Record<string, boolean>>({});
+
+	// Connexion sans mot de passe : email auquel le code a été envoyé (null = pas encore demandé), et jeton reçu par lien
+	const [loginCodeEmail, setLoginCodeEmail] = useState<string | null>(null);
+	const [loginLink, setLoginLink] = useState<VerifyLoginCodeBody | null>(null);
+
+	// Vérification en deux étapes : challenge renvoyé par le login, code saisi, mode "code de secours"
+	const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+	const [otpCode, setOtpCode] = useState(''); // partagé avec la connexion par code
+	const [backupMode, setBackupMode] = useState(false);
+
+	// Confirmation de l'email : attente (adresse, identifiant pour le polling), et jeton reçu par lien
+	const [pendingVerification, setPendingVerification] = useState<EmailVerificationPending | null>(null);
+	const [verifyToken, setVerifyToken] = useState<string | null>(null);
+	// Vérification en cours, commune au polling, au bouton "J'ai confirmé" et au lien de confirmation :
+	// 'polling' / 'checking' (bouton ou lien) / 'done' (session ouverte, plus rien à faire). Un seul finishAuth.
+	const verificationCheck = useRef<'idle' | 'polling' | 'checking' | 'done'>('idle');
+	// Erreur du polling autre que réseau / délai (ex: identifiant expiré) : affichée, et le polling s'arrête.
+	const [verificationPollStopped, setVerificationPollStopped] = useState(false);
+
+	// Étape affichée
+	const step: AuthStep = pendingVerification
+		? 'verify'
+		: mfaChallenge
+		? 'mfa'
+		: resetStep
+		? `reset.${resetStep}`
+		: mode === 'passwordless'
+		? (loginCodeEmail ? 'passwordless.code' : 'passwordless.request')
+		: mode;
+
+	// Événements pour l'analytics (voir authEvents.ts)
+	const events = useAuthEvents(step, onEvent, hashIdentifier);
+
+	// Délai avant de pouvoir renvoyer le code (vérification en deux étapes) ou l'email de confirmation
+	const resendTimer = useCountdown();
+
+	// Session partagée (si l'écran est monté sous un <AuthProvider>), sinon null.
+	const session = useOptionalSession();
+
+	// Client d'authentification : prop `client` > <AuthClientProvider> > client HTTP créé à partir d'apiBaseUrl.
+	const contextClient = useAuthClient();
+	const endpointsKey = JSON.stringify(endpoints ?? {}); // endpoints est souvent un objet littéral : on compare son contenu
+	const defaultClient = useMemo(
+		() => createHttpAuthClient({ baseUrl: apiBaseUrl, endpoints }),
+		[apiBaseUrl, endpointsKey]
+	);
+	const client = clientProp ?? contextClient ?? defaultClient;
+
+	// Échecs consécutifs -> délai avant la prochaine tentative (persisté, voir loginThrottle.ts)
+	const throttlePolicyKey = JSON.stringify(throttlePolicy ?? {});
+	const mergedThrottlePolicy = useMemo(
+		() => ({ ...DEFAULT_THROTTLE_POLICY, ...throttlePolicy }),
+		[throttlePolicyKey]
+	);
+	const throttle = useLoginThrottle(throttleStorage, DEFAULT_THROTTLE_KEY, mergedThrottlePolicy);
+
+	// Protection anti-robots : épreuve affichée (challengeOpen), ou exigée par le serveur au dernier envoi (challengeForced)
+	const challengePolicyKey = JSON.stringify(challengePolicy ?? {});
+	const mergedChallengePolicy = useMemo(
+		() => ({ ...DEFAULT_CHALLENGE_POLICY, ...challengePolicy }),
+		[challengePolicyKey]
+	);
+	const [challengeOpen, setChallengeOpen] = useState(false);
+	const [challengeForced, setChallengeForced] = useState(false);
+	const challengeRequired = !!challengeProvider
+		&& (step === 'login' || step === 'register')
+		&& (challengeForced || isChallengeRequired(step, throttle.failures, mergedChallengePolicy));
+
+	// Requête en cours (une seule à la fois) : annulée au démontage, au changement de mode, ou après requestTimeout.
+	const requests = useAbortableRequest(requestTimeout);
+	// Renvois (code, email de confirmation) : à part, pour ne pas annuler la vérification en cours, mais annulés avec elle.
+	const resends = useAbortableRequest(requestTimeout);
+	// Polling de la confirmation de l'email : sa propre requête, pour ne pas annuler un clic sur "J'ai confirmé".
+	const polls = useAbortableRequest(requestTimeout);
+
+	// Réseau : bandeau + bouton désactivé quand l'appareil est hors ligne.
+	const online = useConnectivity(connectivity);
+	
+
+	// Validation par champ (voir validation.ts)
+	//Login : un email valide + un mot de passe non vide (la politique peut avoir changé depuis la création du compte).
+	//---
+	//Register : un nom non vide (required() fait un .trim(), donc " " est refusé),
+	//un email valide (et libre si checkEmailAvailable est fourni), un mot de passe qui respecte passwordPolicy,
+	//et une confirmation identique au mot de passe (message affiché dès la saisie).
+	//Le nouveau mot de passe de la réinitialisation suit les mêmes règles qu'à l'inscription.
+	//---
+	//Les erreurs s'affichent sous chaque champ dès qu'il a perdu le focus (touched), ou pour tous les champs après un submit.
+	const values = useMemo<AuthValues>(
+		() => ({ ...extraValues, name, email, password, confirm, code: resetCode, otp: otpCode }),
+		[extraValues, name, email, password, confirm, resetCode, otpCode]
+	);
+
+	const rules = useMemo<FormRules<AuthValues>>(() => {
+		const emailRules = {
+			validate: [
+				required<AuthValues>(t('validation.emailRequired')),
+				emailRule<AuthValues>(t('validation.emailInvalid')),
+			],
+		};
+		const passwordRequired = required<AuthValues>(t('validation.passwordRequired'));
+		const passwordRules = {
+			validate: [
+				passwordRequired,
+				(value: string, all: AuthValues) => {
+					const failed = firstFailedRule(checkPasswordPolicy(value, passwordPolicy, { email: all.email, name: all.name }));
+					return failed ? t(`passwordRule.${failed.id}`, failed.params) : null;
+				},
+			],
+		};
+		const confirmRules = {
+			validate: [matches<AuthValues>('password', t('validation.passwordMismatch'))],
+			live: true,
+		};
+
+		const otpRequired = required<AuthValues>(t('validation.otpRequired'));
+		const otpRules = {
+			validate: [otpRequired, (value: string) => (value.length === OTP_LENGTH ? null : t('validation.otpLength', { length: OTP_LENGTH }))],
+		};
+
+		if (pendingVerification) return {};
+		if (mfaChallenge) return { otp: backupMode ? { validate: [otpRequired] } : otpRules };
+		if (resetStep === 'request') return { email: emailRules };
+		if (resetStep === 'reset') {
+			return {
+				code: { validate: [required<AuthValues>(t('validation.codeRequired'))] },
+				password: passwordRules,
+				confirm: confirmRules,
+			};
+		}
+		if (mode === 'passwordless') return loginCodeEmail ? { otp: otpRules } : { email: emailRules };
+		if (mode === 'login') return { email: emailRules, password: { validate: [passwordRequired] } };
+		return {
+			name: { validate: [required<AuthValues>(t('validation.nameRequired'))] },
+			email: {
+				...emailRules,
+				validateAsync: checkEmailAvailable
+					? async (value) => ((await checkEmailAvailable(value)) ? null : t('validation.emailTaken'))
+					: undefined,
+			},
+			password: passwordRules,
+			confirm: confirmRules,
+			// Champs supplémentaires : "obligatoire" d'abord, puis les règles de la config
+			...Object.fromEntries(extraFields.map(field => [
+				field.key,
+				{
+					validate: [...(field.required ? [required<AuthValues>(field.required)] : []), ...(field.validate ?? [])],
+					validateAsync: field.validateAsync,
+				},
+			])),
+		};
+	}, [mode, loginCodeEmail, resetStep, mfaChallenge, backupMode, pendingVerification, checkEmailAvailable, passwordPolicy, extraFields, t]);
+
+	const validation = useFormValidation(values, rules);
+	const fieldErrors = validation.errors;
+	// Inscription : cases obligatoires cochées ? (sinon bouton désactivé, pas seulement grisé)
+	const consentMissing = mode === 'register' && !resetStep && !mfaChallenge && !pendingVerification
+		&& !hasRequiredConsents(consents, acceptedConsents);
+	const canSubmit = validation.isValid && !validation.isValidating && !consentMissing;
+
+	const toggleConsent = useCallback((id: string) => {
+		setAcceptedConsents(prev => ({ ...prev, [id]: !prev[id] }));
+	}, []);
+
+	// Nouveau mode = nouveau formulaire : on oublie les champs touchés et les erreurs serveur.
+	useEffect(() => {
+		validation.reset(values);
+	}, [mode, !loginCodeEmail, resetStep, mfaChallenge, backupMode, !pendingVerification]);
+
+	// Erreur de validation serveur (400/422) : les erreurs par champ s'affichent sous les champs concernés.
+	// Retourne true si au moins une erreur a pu être rattachée à un champ visible.
+	const applyServerFieldErrors = useCallback((authError: AuthError): boolean => {
+		const serverErrors = authError.fieldErrors ?? {};
+		const visible: FieldErrors<AuthValues> = {};
+		(Object.keys(rules) as (keyof AuthValues)[]).forEach(field => {
+			if (serverErrors[field]) visible[field] = serverErrors[field];
+		});
+		if (Object.keys(visible).length === 0) return false;
+		validation.setServerErrors(visible, values);
+		return true;
+	}, [rules, values, validation.setServerErrors]);
+
+	// Affiche une erreur (réseau, serveur...) avec un message compréhensible.
+	// Ordre : erreurs par champ -> message de l'app (mapError) -> message traduit du code.
+	const showError = useCallback((e: unknown) => {
+		const authError = toAuthError(e);
+		if (authError.code === 'validation' && applyServerFieldErrors(authError)) return;
+
+		const custom = mapError?.(authError);
+		if (custom) {
+			setError(custom);
+		} else if ((resetStep === 'reset' || mfaChallenge || loginCodeEmail) && (authError.code === 'invalidCredentials' || authError.code === 'validation')) {
+			// Pendant la réinitialisation, la vérification en deux étapes ou la connexion par code,
+			// un 400/401 veut dire "code invalide", pas "mauvais mot de passe".
+			setError(t(resetStep === 'reset' ? 'error.invalidResetCode' : 'error.invalidMfaCode'));
+		} else {
+			setError(t(`error.${authError.code}`));
+		}
+	}, [applyServerFieldErrors, mapError, resetStep, mfaChallenge, loginCodeEmail, t]);
+
+	// Bascule Login/Register. Bouton/lien qui bascule entre les deux modes.
+	/*
+		* mode vaut :
+			'login' en mode connexion
+			'register' en mode inscription
+			'passwordless' en mode connexion par code
+		* switchMode calcule le mode suivant à partir du mode actuel :
+			.si c'est 'login' -> ca devient 'register'
+			.sinon ('register' ou 'passwordless') -> ca devient 'login'
+		* setMode (plus haut) prévient l'app (onModeChange) et ne change l'état interne que si l'app ne contrôle pas `mode`.
+
+		Lorsque l'on change de mode, on doit supprimer les messages d'erreurs qui sont affichés.
+		(ex: adresse email incorrecte, mot de passe invalide,...)
+			. si on reste avec l'erreur visible, ca fera bzarre pour l'utilisateur.
+			. Donc à chaque bascule, on annule la requête en cours (cancelPending) et on remet l'erreur à vide.
+	*/
+	// Changement d'étape : la requête en cours n'a plus de sens, on l'annule (son résultat sera ignoré).
+	const cancelPending = useCallback(() => {
+		requests.abort();
+		resends.abort();
+		setLoading(false);
+		setChallengeOpen(false);
+	}, [requests.abort, resends.abort]);
+
+	// Depuis la connexion par code, la bascule ramène au login.
+	const switchMode = useCallback(() => {
+		const next = mode === 'login' ? 'register' : 'login';
+		cancelPending();
+		events.emit({ type: 'modeSwitched', from: mode, to: next });
+		setMode(next);
+		setLoginCodeEmail(null);
+		setOtpCode('');
+		setError(null);
+	}, [mode, cancelPending, events.emit]);
+
+	// Choix direct d'un mode (ex: lien "Recevoir un code par email" sous le login).
+	const changeMode = useCallback((next: AuthMode) => {
+		cancelPending();
+		if (next !== mode) events.emit({ type: 'modeSwitched', from: mode, to: next });
+		setMode(next);
+		setLoginCodeEmail(null);
+		setOtpCode('');
+		setError(null);
+	}, [mode, cancelPending, events.emit]);
+
+	// Mode changé par l'app (prop `mode`, ex: retour de la navigation) : même remise à zéro que depuis l'écran.
+	useEffect(() => {
+		if (mode === requestedMode.current) return;
+		requestedMode.current = mode;
+		cancelPending();
+		setResetStep(null);
+		setLoginCodeEmail(null);
+		setOtpCode('');
+		setError(null);
+	}, [mode, cancelPending]);
+
+	// Entrée / sortie du parcours "Mot de passe oublié". On garde l'email déjà saisi.
+	const openReset = useCallback((step: Exclude<ResetStep, null>) => {
+		cancelPending();
+		if (step === 'request') events.emit({ type: 'forgotPasswordOpened' });
+		setResetStep(step);
+		setPassword('');
+		setConfirm('');
+		setError(null);
+	}, [cancelPending, events.emit]);
+
+	const closeReset = useCallback(() => {
+		cancelPending();
+		setResetStep(null);
+		setResetCode('');
+		setPassword('');
+		setConfirm('');
+		setMode('login');
+		setError(null);
+	}, [cancelPending]);
+
+	// Lien vers l'écran (email marketing, site...) : mode demandé et champs pré-remplis.
+	// Le lien remplace l'étape en cours (réinitialisation, code de connexion), sauf deux étapes / confirmation en attente.
+	const openAuthLink = useCallback((link: AuthLink) => {
+		const { name: linkName, email: linkEmail } = link.prefill;
+		if (linkName !== undefined) setName(linkName);
+		if (linkEmail !== undefined) setEmail(linkEmail.trim());
+		const extras = extraFields.filter(field => link.prefill[field.key] !== undefined);
+		if (extras.length > 0) {
+			setExtraValues(prev => ({ ...prev, ...Object.fromEntries(extras.map(field => [field.key, link.prefill[field.key]])) }));
+		}
+		changeMode(link.mode);
+		setResetStep(null);
+		if (link.forgotPassword) openReset('request');
+	}, [extraFields, changeMode, openReset]);
+
+	// Lien de réinitialisation, de confirmation, de connexion ou vers l'écran : au lancement de l'app (getInitialURL) ou pendant qu'elle tourne (événement 'url').
+	const handleUrl = (url: string | null) => {
+		const verifyLink = parseVerifyEmailLink(url);
+		if (verifyLink) {
+			setVerifyToken(verifyLink.token); // traité plus bas, une fois finishAuth disponible
+			return;
+		}
+		const loginLinkBody = parseLoginLink(url);
+		if (loginLinkBody) {
+			setLoginLink(loginLinkBody); // idem
+			return;
+		}
+		const authLink = parseAuthLink(url);
+		if (authLink) {
+			openAuthLink(authLink);
+			return;
+		}
+		const link = parseResetLink(url);
+		if (!link) return;
+		if (link.email) setEmail(link.email);
+		setResetCode(link.code);
+		setMode('login');
+		openReset('reset');
+	};
+	// Dernière version (mode, champs supplémentaires...) sans réabonner : l'abonnement ne se fait qu'au montage.
+	const urlHandler = useRef(handleUrl);
+	urlHandler.current = handleUrl;
+
+	useEffect(() => {
+		// getInitialURL() renvoie toujours le lien de lancement : il n'est traité qu'une fois par lancement de l'app,
+		// même si l'écran est démonté puis remonté (sinon : retour au mode du lien, code renvoyé...).
+		Linking.getInitialURL()
+			.then(url => {
+				if (!url || url === handledInitialUrl) return;
+				handledInitialUrl = url;
+				urlHandler.current(url);
+			})
+			.catch(() => {});
+		const subscription = Linking.addEventListener('url', ({ url }) => urlHandler.current(url));
+		return () => subscription.remove();
+	}, []);
+
+	// Soumission
+	/**
+	 * useCallback(async (challengeToken?) => {...}, [...])
+	 *  * useCallback : mémorise la fonction pour ne pas qu'elle soit recréée à chaque rendu du composant (optimisation).
+	 *  * async : la fonction est asynchrone, car on va attendre (await) la réponse du serveur.
+	 *  * [mode, email, password, name, ..., client, finishAuth, ...] : ce sont les dépendances -> si une de ces valeurs change, React recrée la fonction (pour avoir la bonne version).
+	 * 
+	 * 
+	 * const request = requests.begin();
+	 *  * Démarre une requête annulable (voir useAbortableRequest.ts) : démontage, changement de mode ou délai dépassé.
+	 * 
+	 * 
+	 * setLoading(true) / setError(null)
+	 *  * Désactive le bouton (spinner) et efface les anciens messages d'erreur avant une nouvelle tentative.
+	 * 
+	 * 
+	 * client.login({ email, password, challenge }) ou client.register({ ...champs supplémentaires, consents, name, email, password, challenge })
+	 *  * Le client (voir authClient.ts, Axios par défaut) construit l'URL à partir de apiBaseUrl et envoie le JSON.
+	 *  * Une réponse en erreur (4xx, 5xx, réseau) lance une exception, classée en AuthError (voir authErrors.ts).
+	 *  * name.trim() -> supprime les espaces au début/fin pour éviter un nom comme " "
+	 * 
+	 * 
+	 * Réponse reçue :
+	 *  * vérification en deux étapes demandée -> startMfa
+	 *  * email à confirmer -> startVerification (écran d'attente)
+	 *  * sinon -> finishAuth : vérifie la forme de la réponse, enregistre la session, appelle onAuthSuccess et affiche "Succès".
+	 * 
+	 * 
+	 * catch (e)
+	 *  * requête annulée -> on ne touche plus à rien (l'écran a changé ou n'existe plus).
+	 *  * sinon -> événement d'échec, délai avant la prochaine tentative, et message traduit (showError).
+	 * 
+	 * 
+	 * finally
+	 *  * request.end() arrête le minuteur ; loading repasse à false pour réactiver le bouton (sauf écran quitté).
+	*/
+	// Fin de l'authentification (login, register ou vérification en deux étapes) : session, callback et message de succès.
+	const finishAuth = useCallback(async (data: unknown, successMessage: string) => {
+		// Vérifie que le backend a bien renvoyé une session, de la forme attendue (voir responseSchema.ts).
+		// Un champ "message" seul ne veut rien dire (certains backends renvoient "Bienvenue !" avec les tokens).
+		const response = parseAuthResponse(data, userSchema);
+
+		await session?.signIn(response);
+		events.succeeded('session');
+		onAuthSuccess?.(response);
+		Alert.alert(t('common.success'), successMessage);
+
+		// Reset des champs sensibles
+		setPassword("");
+		setConfirm("");
+		setMfaChallenge(null);
+		setOtpCode("");
+		setPendingVerification(null);
+		setLoginCodeEmail(null);
+	}, [session, onAuthSuccess, userSchema, events.succeeded, t]);
+
+	// Email à confirmer : on passe à l'écran d'attente. `resendIn` = secondes avant de pouvoir renvoyer l'email.
+	const startVerification = useCallback((pending: EmailVerificationPending, resendIn: number) => {
+		verificationCheck.current = 'idle';
+		setVerificationPollStopped(false);
+		setPendingVerification(pending);
+		setPassword('');
+		setConfirm('');
+		resendTimer.start(resendIn);
+	}, [resendTimer.start]);
+
+	// Second facteur demandé : on passe à l'étape de saisie du code (onAuthSuccess attendra la vérification).
+	const startMfa = useCallback((challenge: MfaChallenge) => {
+		setMfaChallenge(challenge);
+		setOtpCode('');
+		setBackupMode(false);
+		setPassword('');
+		resendTimer.start(challenge.resendAfter ?? DEFAULT_RESEND_DELAY);
+	}, [resendTimer.start]);
+
+	// `challengeToken` : token de l'épreuve anti-robots, quand elle a été demandée (à usage unique, redemandé à chaque envoi).
+	const handleSubmit = useCallback(async (challengeToken?: ChallengeToken) => {
+		const request = requests.begin(); // annulable (démontage, changement de mode) et limitée dans le temps
+		try {
+			setLoading(true);       // Active le spinner / l'état de chargement
+			setError(null);         // Réinitialise les erreurs avant la soumission
+	
+			// Prépare le corps de la requête et l'envoie via le client (Axios par défaut)
+			const { signal } = request;
+			const data = await request.run(mode === 'login'
+				? client.login({ email, password, challenge: challengeToken }, { signal })   // Si login : on envoie email + password
+				: client.register({
+					...extraFieldsPayload(extraFields, values),
+					...(consents.length > 0 ? { consents: buildConsentRecord(consents, acceptedConsents) } : null),
+					name: name.trim(),
+					email,
+					password,
+					challenge: challengeToken,
+				}, { signal }));  // Sinon : champs supplémentaires + consentements + nom + email + password (+ token anti-robots)
+
+			// Identifiants acceptés : le compteur d'échecs repart de zéro.
+			throttle.registerSuccess();
+			setChallengeForced(false);
+
+			if (isMfaChallenge(data)) {
+				events.succeeded('mfaRequired');
+				startMfa(data);
+				return;
+			}
+
+			// Email pas encore confirmé : le serveur vient d'envoyer le lien (onAuthSuccess attendra la confirmation).
+			if (isVerificationPending(data)) {
+				events.succeeded('verificationRequired');
+				startVerification({ ...data, email: data.email || email }, data.resendAfter ?? DEFAULT_EMAIL_RESEND_DELAY);
+				return;
+			}
+	
+			// Si tout va bien : on enregistre la session, puis callback et message de succès
+			await finishAuth(data, mode === 'login' ? t('login.success') : t('register.success'));
+		} catch (e) {
+			// Requête annulée : l'écran a changé (ou n'existe plus), on ne touche plus à rien.
+			if (request.isCancelled()) return;
+			// Login d'un compte pas encore confirmé : même écran d'attente qu'après l'inscription.
+			// Aucun email ne vient de partir, le renvoi est donc possible tout de suite.
+			const authError = toAuthError(e);
+			if (authError.code === 'emailNotVerified') {
+				events.succeeded('verificationRequired');
+				startVerification({ verificationRequired: true, email }, 0);
+				return;
+			}
+			events.failed(authError.code, authError.status);
+			// Token anti-robots absent ou refusé : l'épreuve sera demandée au prochain envoi, quelle que soit la politique.
+			if (authError.code === 'challengeFailed') setChallengeForced(true);
+			// Échec refusé par le serveur (mauvais identifiants, 429, 423) : délai avant la prochaine tentative.
+			throttle.registerFailure(authError);
+			// Gestion des erreurs réseau ou serveur (voir showError). Un compte bloqué a son propre encadré.
+			if (authError.code === 'accountLocked') setError(null);
+			else showError(authError);
+		} finally {
+			request.end();
+			if (!request.isCancelled()) setLoading(false);  // Désactive le spinner dans tous les cas (sauf écran quitté)
+		}
+	}, [mode, email, password, name, extraFields, values, consents, acceptedConsents, client, requests.begin, finishAuth, startMfa, startVerification, throttle.registerSuccess, throttle.registerFailure, showError, events.succeeded, events.failed, t]);
+
+	// Épreuve anti-robots réussie : l'envoi repart avec le token.
+	const handleChallengeToken = useCallback((token: string) => {
+		setChallengeOpen(false);
+		if (challengeProvider) handleSubmit({ provider: challengeProvider.id, token });
+	}, [challengeProvider, handleSubmit]);
+
+	// Fournisseur indisponible (réseau, clé invalide...) : même message qu'un token refusé par le serveur.
+	const handleChallengeError = useCallback(() => {
+		setChallengeOpen(false);
+		events.failed('challengeFailed');
+		setError(t('error.challengeFailed'));
+	}, [events.failed, t]);
+
+	const cancelChallenge = useCallback(() => {
+		setChallengeOpen(false);
+		events.failed('cancelled');
+	}, [events.failed]);
+
+	// Connexion avec un fournisseur (Google, Apple...) : page du fournisseur, puis échange du code par le backend.
+	// Fermer la page ou refuser l'accès affiche "Connexion annulée" dans l'encadré d'erreur habituel.
+	const handleOAuth = useCallback(async (providerId: string) => {
+		const provider = oauthProviders.find(item => item.id === providerId);
+		if (!provider) return;
+		setLoading(true);
+		setError(null);
+
+		// Le temps passé sur la page du fournisseur n'est pas limité par requestTimeout : seul l'échange l'est.
+		// Mais la page est annulable comme une requête : après un changement de mode ou le démontage,
+		// le code reçu n'est pas échangé (l'utilisateur ne doit pas se retrouver connecté en arrière-plan).
+		const browsing = requests.begin(0);
+		let authorization;
+		try {
+			authorization = await browsing.run(authorizeWithProvider(provider, oauthBrowser));
+		} catch (e) {
+			if (browsing.isCancelled()) return;
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			showError(authError);
+			setLoading(false);
+			return;
+		} finally {
+			browsing.end();
+		}
+		if (browsing.signal.aborted) return;
+
+		const request = requests.begin();
+		try {
+			const data = await request.run(client.exchangeOAuthCode(authorization, { signal: request.signal }));
+			if (isMfaChallenge(data)) {
+				events.succeeded('mfaRequired');
+				startMfa(data);
+				return;
+			}
+			await finishAuth(data, t('login.success'));
+		} catch (e) {
+			if (request.isCancelled()) return;
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			showError(authError);
+		} finally {
+			request.end();
+			if (!request.isCancelled()) setLoading(false);
+		}
+	}, [oauthProviders, oauthBrowser, client, requests.begin, finishAuth, startMfa, showError, events.succeeded, events.failed, t]);
+
+	// Connexion sans mot de passe, 1re étape : le serveur envoie un code (et un lien) à l'email saisi.
+	const handleLoginCodeRequest = useCallback(async () => {
+		const request = requests.begin();
+		try {
+			setLoading(true);
+			setError(null);
+			const sent = await request.run(client.requestLoginCode(email, { signal: request.signal }));
+			events.succeeded('codeSent');
+			setOtpCode('');
+			setLoginCodeEmail(email);
+			resendTimer.start(sent.resendAfter ?? DEFAULT_EMAIL_RESEND_DELAY);
+		} catch (e) {
+			if (request.isCancelled()) return;
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			showError(authError);
+		} finally {
+			request.end();
+			if (!request.isCancelled()) setLoading(false);
+		}
+	}, [email, client, requests.begin, resendTimer.start, showError, events.succeeded, events.failed]);
+
+	// 2e étape : code saisi, ou lien ouvert (voir l'effet sur loginLink). Même issue qu'un login : deux étapes possibles.
+	const handleLoginCodeSubmit = useCallback(async (body: VerifyLoginCodeBody) => {
+		const request = requests.begin();
+		try {
+			setLoading(true);
+			setError(null);
+			const data = await request.run(client.verifyLoginCode(body, { signal: request.signal }));
+			throttle.registerSuccess();
+			if (isMfaChallenge(data)) {
+				events.succeeded('mfaRequired');
+				setLoginCodeEmail(null);
+				startMfa(data);
+				return;
+			}
+			await finishAuth(data, t('login.success'));
+		} catch (e) {
+			if (request.isCancelled()) return;
+			// Un mauvais code compte comme un échec de connexion, comme pour la vérification en deux étapes.
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			throttle.registerFailure(authError);
+			setOtpCode('');
+			if (authError.code === 'accountLocked') setError(null);
+			else if ('token' in body && (authError.code === 'invalidCredentials' || authError.code === 'validation')) {
+				setError(t('error.invalidLoginLink'));
+			} else showError(authError);
+		} finally {
+			request.end();
+			if (!request.isCancelled()) setLoading(false);
+		}
+	}, [client, requests.begin, finishAuth, startMfa, throttle.registerSuccess, throttle.registerFailure, showError, events.succeeded, events.failed, t]);
+
+	// Nouveau code, limité par le délai (celui du serveur en cas de 429).
+	const handleLoginCodeResend = useCallback(async () => {
+		if (!loginCodeEmail || resendTimer.remaining > 0) return;
+		const request = resends.begin();
+		try {
+			setError(null);
+			const sent = await request.run(client.requestLoginCode(loginCodeEmail, { signal: request.signal }));
+			resendTimer.start(sent.resendAfter ?? DEFAULT_EMAIL_RESEND_DELAY);
+			Alert.alert(t('passwordless.resentTitle'), t('passwordless.resentMessage', { email: loginCodeEmail }));
+		} catch (e) {
+			if (request.isCancelled()) return;
+			const authError = toAuthError(e);
+			if (authError.code === 'rateLimited' && authError.retryAfterMs) {
+				resendTimer.start(Math.ceil(authError.retryAfterMs / 1000));
+			}
+			showError(authError);
+		} finally {
+			request.end();
+		}
+	}, [loginCodeEmail, resendTimer.remaining, resendTimer.start, client, resends.begin, showError, t]);
+
+	// Retour à la saisie de l'email (adresse mal tapée...). L'email reste pré-rempli.
+	const cancelLoginCode = useCallback(() => {
+		cancelPending();
+		setLoginCodeEmail(null);
+		setOtpCode('');
+		setError(null);
+	}, [cancelPending]);
+
+	// Vérification du code (6 chiffres ou code de secours). `code` permet d'envoyer dès que la dernière case est remplie.
+	const handleMfaSubmit = useCallback(async (code: string = otpCode) => {
+		if (!mfaChallenge) return;
+		const request = requests.begin();
+		try {
+			setLoading(true);
+			setError(null);
+			const data = await request.run(client.verifyMfa({
+				challengeId: mfaChallenge.challengeId,
+				code: code.trim(),
+				backupCode: backupMode || undefined,
+			}, { signal: request.signal }));
+			throttle.registerSuccess();
+			await finishAuth(data, t('login.success'));
+		} catch (e) {
+			if (request.isCancelled()) return;
+			// Un mauvais code compte comme un échec de connexion (sinon on pourrait essayer tous les codes).
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			throttle.registerFailure(authError);
+			setOtpCode('');
+			if (authError.code === 'accountLocked') setError(null);
+			else showError(authError);
+		} finally {
+			request.end();
+			if (!request.isCancelled()) setLoading(false);
+		}
+	}, [mfaChallenge, otpCode, backupMode, client, requests.begin, finishAuth, throttle.registerSuccess, throttle.registerFailure, showError, events.failed, t]);
+
+	// Nouveau code par SMS/email, puis nouveau délai d'attente.
+	const handleMfaResend = useCallback(async () => {
+		if (!mfaChallenge || resendTimer.remaining > 0) return;
+		const request = resends.begin();
+		try {
+			setError(null);
+			await request.run(client.resendMfa(mfaChallenge.challengeId, { signal: request.signal }));
+			resendTimer.start(mfaChallenge.resendAfter ?? DEFAULT_RESEND_DELAY);
+			Alert.alert(t('mfa.resentTitle'), t('mfa.resentMessage'));
+		} catch (e) {
+			if (request.isCancelled()) return;
+			showError(e);
+		} finally {
+			request.end();
+		}
+	}, [mfaChallenge, resendTimer.remaining, resendTimer.start, client, resends.begin, showError, t]);
+
+	// Bascule code à 6 chiffres <-> code de secours.
+	const toggleBackupMode = useCallback(() => {
+		setBackupMode(prev => !prev);
+		setOtpCode('');
+		setError(null);
+	}, []);
+
+	// Abandon de la vérification : retour au login (l'email reste pré-rempli).
+	const cancelMfa = useCallback(() => {
+		cancelPending();
+		setMfaChallenge(null);
+		setOtpCode('');
+		setBackupMode(false);
+		setError(null);
+	}, [cancelPending]);
+
+	// Email confirmé : une seule ouverture de session, quel que soit le chemin (polling, bouton ou lien) arrivé en premier.
+	// Retourne false si un autre chemin l'a déjà ouverte.
+	const finishVerification = useCallback(async (data: unknown): Promise<boolean> => {
+		if (verificationCheck.current === 'done') return false;
+		verificationCheck.current = 'done';
+		try {
+			await finishAuth(data, t('verify.success'));
+			return true;
+		} catch (e) {
+			// Réponse invalide ou session non enregistrée : l'utilisateur peut réessayer.
+			verificationCheck.current = 'idle';
+			throw e;
+		}
+	}, [finishAuth, t]);
+
+	// Bouton "J'ai confirmé" ou lien de confirmation : prend la main sur le polling en cours (son résultat est ignoré).
+	const beginVerificationCheck = useCallback(() => {
+		if (verificationCheck.current === 'done') return null;
+		polls.abort();
+		verificationCheck.current = 'checking';
+		return requests.begin();
+	}, [polls.abort, requests.begin]);
+
+	const endVerificationCheck = useCallback((request: AbortableRequest) => {
+		request.end();
+		// Requête annulée : une plus récente (ou le démontage) a pris la main.
+		if (request.isCancelled()) return;
+		if (verificationCheck.current === 'checking') verificationCheck.current = 'idle';
+		setLoading(false);
+	}, []);
+
+	// Email confirmé ? Bouton "J'ai confirmé".
+	const checkVerification = useCallback(async () => {
+		if (!pendingVerification) return;
+		const request = beginVerificationCheck();
+		if (!request) return;
+		try {
+			setLoading(true);
+			setError(null);
+			const data = await request.run(client.checkEmailVerification({
+				email: pendingVerification.email,
+				verificationId: pendingVerification.verificationId,
+			}, { signal: request.signal }));
+			if (isVerificationPending(data)) {
+				events.succeeded('verificationRequired');
+				setError(t('verify.notYet'));
+				return;
+			}
+			await finishVerification(data);
+		} catch (e) {
+			if (request.isCancelled()) return;
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			showError(authError);
+		} finally {
+			endVerificationCheck(request);
+		}
+	}, [pendingVerification, client, beginVerificationCheck, endVerificationCheck, finishVerification, showError, events.succeeded, events.failed, t]);
+
+	// Polling tant que l'écran d'attente est affiché : un appel à la fois, jamais pendant le bouton ou le lien.
+	// Annulé au démontage et quand l'attente s'arrête (plus de setState ni de onAuthSuccess sur un écran fermé).
+	// Réseau coupé ou délai dépassé : on réessaiera au prochain passage. Toute autre erreur est affichée et arrête le polling.
+	useEffect(() => {
+		if (!pendingVerification || !verificationPollInterval || verificationPollStopped) return;
+
+		const poll = async () => {
+			if (verificationCheck.current !== 'idle') return;
+			verificationCheck.current = 'polling';
+			const request = polls.begin();
+			try {
+				const data = await request.run(client.checkEmailVerification({
+					email: pendingVerification.email,
+					verificationId: pendingVerification.verificationId,
+				}, { signal: request.signal }));
+				if (isVerificationPending(data)) return;
+				// Confirmée par le polling : rien n'a été envoyé par l'utilisateur, la méthode est donnée ici.
+				// Événement après la session enregistrée : une réponse invalide ne compte pas comme un succès.
+				if (await finishVerification(data)) events.succeeded('session', 'emailVerification');
+			} catch (e) {
+				if (request.isCancelled()) return;
+				const authError = toAuthError(e);
+				if (authError.code === 'offline' || authError.code === 'timeout') return;
+				setVerificationPollStopped(true);
+				showError(authError);
+			} finally {
+				request.end();
+				if (verificationCheck.current === 'polling') verificationCheck.current = 'idle';
+			}
+		};
+
+		const timer = setInterval(poll, verificationPollInterval);
+		return () => {
+			clearInterval(timer);
+			polls.abort();
+		};
+	}, [pendingVerification, verificationPollInterval, verificationPollStopped, client, polls.begin, polls.abort, finishVerification, showError, events.succeeded]);
+
+	// Lien de confirmation ouvert : le jeton suffit, même si l'écran d'attente n'est pas affiché (app relancée).
+	useEffect(() => {
+		if (!verifyToken) return;
+		setVerifyToken(null);
+		const request = beginVerificationCheck();
+		if (!request) return;
+		events.attempted('emailVerification');
+		(async () => {
+			try {
+				setLoading(true);
+				setError(null);
+				const data = await request.run(client.confirmEmail(verifyToken, { signal: request.signal }));
+				await finishVerification(data);
+			} catch (e) {
+				if (request.isCancelled()) return;
+				const authError = toAuthError(e);
+				events.failed(authError.code, authError.status);
+				showError(authError);
+			} finally {
+				endVerificationCheck(request);
+			}
+		})();
+	}, [verifyToken, client, beginVerificationCheck, endVerificationCheck, finishVerification, showError, events.attempted, events.failed]);
+
+	// Lien de connexion ouvert : fonctionne aussi si l'app a été relancée entre-temps (pas besoin de l'écran d'attente).
+	useEffect(() => {
+		if (!loginLink) return;
+		setLoginLink(null);
+		setMode('passwordless');
+		events.attempted('emailLink', { identifier: 'email' in loginLink ? loginLink.email : null });
+		handleLoginCodeSubmit(loginLink);
+	}, [loginLink, handleLoginCodeSubmit, events.attempted]);
+
+	// Renvoi de l'email de confirmation, limité par le délai (celui du serveur en cas de 429).
+	const handleVerificationResend = useCallback(async () => {
+		if (!pendingVerification || resendTimer.remaining > 0) return;
+		const request = resends.begin();
+		try {
+			setError(null);
+			await request.run(client.resendVerificationEmail(pendingVerification.email, { signal: request.signal }));
+			resendTimer.start(pendingVerification.resendAfter ?? DEFAULT_EMAIL_RESEND_DELAY);
+			Alert.alert(t('verify.resentTitle'), t('verify.resentMessage', { email: pendingVerification.email }));
+		} catch (e) {
+			if (request.isCancelled()) return;
+			const authError = toAuthError(e);
+			if (authError.code === 'rateLimited' && authError.retryAfterMs) {
+				resendTimer.start(Math.ceil(authError.retryAfterMs / 1000));
+			}
+			showError(authError);
+		} finally {
+			request.end();
+		}
+	}, [pendingVerification, resendTimer.remaining, resendTimer.start, client, resends.begin, showError, t]);
+
+	// Abandon de l'attente : retour au login (l'email reste pré-rempli).
+	const cancelVerification = useCallback(() => {
+		cancelPending();
+		setPendingVerification(null);
+		setMode('login');
+		setError(null);
+	}, [cancelPending]);
+
+	// Soumission du parcours "Mot de passe oublié" : même gestion loading / error que handleSubmit.
+	const handleResetSubmit = useCallback(async () => {
+		const request = requests.begin();
+		try {
+			setLoading(true);
+			setError(null);
+
+			if (resetStep === 'request') {
+				// Le serveur envoie un email avec un code + un lien vers l'app.
+				await request.run(client.forgotPassword(email, { signal: request.signal }));
+				events.succeeded('codeSent');
+				request.end(); // openReset() annule la requête en cours : celle-ci est terminée
+				Alert.alert(t('reset.emailSentTitle'), t('reset.emailSentMessage'));
+				openReset('reset');
+				return;
+			}
+
+			await request.run(client.resetPassword({ email, code: resetCode.trim(), password }, { signal: request.signal }));
+			events.succeeded('passwordReset');
+			request.end();
+			Alert.alert(t('reset.doneTitle'), t('reset.doneMessage'));
+
+			// Retour au login, l'email reste pré-rempli.
+			closeReset();
+		} catch (e) {
+			if (request.isCancelled()) return;
+			const authError = toAuthError(e);
+			events.failed(authError.code, authError.status);
+			showError(authError);
+		} finally {
+			request.end();
+			if (!request.isCancelled()) setLoading(false);
+		}
+	}, [resetStep, email, resetCode, password, client, requests.begin, openReset, closeReset, showError, events.succeeded, events.failed, t]);
+
+	// Retour (bouton Android, ou navigation de l'app) : étape précédente de l'écran.
+	// Retourne false quand il n'y a plus rien à défaire : la navigation peut quitter l'écran.
+	// Un mode contrôlé par l'app n'est pas défait ici : chaque mode est alors une étape de la navigation.
+	const back = useCallback((): boolean => {
+		if (pendingVerification) cancelVerification();
+		else if (mfaChallenge) cancelMfa();
+		else if (resetStep) closeReset();
+		else if (loginCodeEmail) cancelLoginCode();
+		else if (controlledMode === undefined && mode !== initialMode) changeMode(initialMode);
+		else return false;
+		return true;
+	}, [pendingVerification, mfaChallenge, resetStep, loginCodeEmail, controlledMode, mode, initialMode, cancelVerification, cancelMfa, closeReset, cancelLoginCode, changeMode]);
+
+	// Seulement quand l'écran est au premier plan (voir `focused`).
+	useEffect(() => {
+		if (!handleHardwareBack || !focused) return;
+		const subscription = BackHandler.addEventListener('hardwareBackPress', back);
+		return () => subscription.remove();
+	}, [handleHardwareBack, focused, back]);
+
+	// Délai en cours entre deux tentatives (login, inscription, code de vérification)
+	const throttled = throttle.remaining > 0 && !resetStep && !pendingVerification;
+
+	// Ce qu'envoie le bouton principal à l'étape affichée (pour les événements)
+	const submitMethod: AuthMethod = pendingVerification
+		? 'emailVerification'
+		: mfaChallenge
+		? 'mfa'
+		: resetStep
+		? 'passwordReset'
+		: mode === 'passwordless'
+		? 'emailCode'
+		: mode === 'login'
+		? 'password'
+		: 'register';
+
+	// Champs en erreur dans l'ordre de l'écran (le premier reçoit le focus après un envoi refusé)
+	const registerOrder = useMemo(() => registerFieldOrder(extraFields), [extraFields]);
+	const invalidFields = step === 'register'
+		? registerOrder.filter(field => validation.invalidFields.includes(field))
+		: validation.invalidFields.map(String);
+
+	// Submit depuis le bouton ou la touche "done" du clavier.
+	// Si le formulaire est invalide, on affiche toutes les erreurs au lieu d'envoyer.
+	// Retourne 'sent', 'invalid' (erreurs affichées, ex: pour placer le focus) ou 'unavailable' (envoi en cours, délai, hors ligne).
+	const onSubmit = (): SubmitResult => {
+		if (loading || throttled || !online || challengeOpen) return 'unavailable';
+		if (!canSubmit) {
+			events.emit({
+				type: 'submitBlocked',
+				step,
+				reason: !validation.isValid ? 'invalid' : validation.isValidating ? 'validating' : 'consents',
+				fields: invalidFields,
+			});
+			validation.touchAll();
+			return 'invalid';
+		}
+		events.attempted(submitMethod, { identifier: pendingVerification?.email ?? loginCodeEmail ?? email });
+		if (pendingVerification) checkVerification();
+		else if (mfaChallenge) handleMfaSubmit();
+		else if (mode === 'passwordless' && loginCodeEmail) handleLoginCodeSubmit({ email: loginCodeEmail, code: otpCode });
+		else if (mode === 'passwordless') handleLoginCodeRequest();
+		else if (resetStep) handleResetSubmit();
+		else if (challengeRequired) {
+			// L'envoi repart quand le fournisseur donne le token (voir handleChallengeToken).
+			setError(null);
+			setChallengeOpen(true);
+		}
+		else handleSubmit();
+		return 'sent';
+	};
+
+	// Champs visibles selon l'étape (vérification en deux étapes et attente de confirmation remplacent tout le formulaire)
+	const showForm = !mfaChallenge && !pendingVerification && !loginCodeEmail;
+	const showName = showForm && !resetStep && mode === 'register';
+	const showEmail = showForm;
+	const showPassword = showForm && (resetStep === 'reset' || (!resetStep && mode !== 'passwordless'));
+	const showConfirm = showForm && (resetStep === 'reset' || (!resetStep && mode === 'register'));
+
+	// Jauge + checklist sous le mot de passe (inscription et nouveau mot de passe)
+	const showStrength = showConfirm;
+	const passwordRuleResults = useMemo(
+		() => checkPasswordPolicy(password, passwordPolicy, { email, name }),
+		[password, passwordPolicy, email, name]
+	);
+
+	// Boutons des fournisseurs : sur le login et l'inscription, avec les mêmes garde-fous que le bouton principal.
+	const showOAuth = oauthProviders.length > 0 && showForm && !resetStep;
+	const signInWith = (providerId: string) => {
+		if (loading || throttled || !online) return;
+		events.attempted('oauth', { provider: providerId });
+		handleOAuth(providerId);
+	};
+
+	// Code complet saisi dans les cases : envoi direct, avec les mêmes garde-fous que le bouton.
+	const submitOtp = (code: string) => {
+		if (loading || throttled || !online) return;
+		events.attempted(submitMethod, { identifier: loginCodeEmail ?? email });
+		if (loginCodeEmail) handleLoginCodeSubmit({ email: loginCodeEmail, code });
+		else handleMfaSubmit(code);
+	};
+
+	const bind = (field: keyof AuthValues, setValue: (value: string) => void, visible: boolean): FieldBinding => ({
+		value: values[field],
+		onChangeText: setValue,
+		onBlur: () => validation.touch(field),
+		error: fieldErrors[field],
+		visible,
+	});
+
+	return {
+		step,
+		mode,
+
+		// Champs
+		fields: {
+			name: bind('name', setName, showName),
+			email: bind('email', setEmail, showEmail),
+			code: bind('code', setResetCode, showForm && resetStep === 'reset'),
+			password: bind('password', setPassword, showPassword),
+			confirm: bind('confirm', setConfirm, showConfirm),
+			otp: bind('otp', setOtpCode, !!mfaChallenge || !!loginCodeEmail),
+			// Champs supplémentaires de l'inscription, par clé
+			extra: Object.fromEntries(extraFields.map(field => [
+				field.key,
+				bind(field.key, (value) => setExtraValues(prev => ({ ...prev, [field.key]: value })), showName),
+			])) as Record<string, FieldBinding>,
+		},
+		// Ordre des champs de l'inscription (champs supplémentaires compris), pour la touche "suivant" du clavier
+		registerOrder,
+
+		// Validation
+		errors: fieldErrors,
+		invalidFields,                   // champs en erreur (affichée ou non), dans l'ordre de l'écran
+		canSubmit,
+		isValidating: validation.isValidating,
+		showStrength,
+		passwordRules: passwordRuleResults,
+
+		// Consentements de l'inscription
+		consents: {
+			items: consents,
+			accepted: acceptedConsents,
+			toggle: toggleConsent,
+			missing: consentMissing,   // une case obligatoire n'est pas cochée
+		},
+
+		// État de la soumission
+		loading,
+		error,
+		online,
+		throttle: {
+			active: throttled,           // délai en cours : bouton désactivé
+			locked: throttle.locked,     // "compte temporairement bloqué"
+			remaining: throttle.remaining,
+		},
+
+		// Actions
+		submit: onSubmit,
+		submitOtp,
+		switchMode,
+		setMode: changeMode,
+		back,                            // étape précédente ; false = rien à défaire (la navigation peut quitter l'écran)
+		oauth: { providers: showOAuth ? oauthProviders : NO_OAUTH_PROVIDERS, signIn: signInWith },
+		challenge: {
+			provider: challengeOpen ? challengeProvider ?? null : null,   // épreuve à afficher (null = rien)
+			action: (step === 'register' ? 'register' : 'login') as ChallengeAction,
+			onToken: handleChallengeToken,
+			onError: handleChallengeError,
+			onCancel: cancelChallenge,
+		},
+		reset: { step: resetStep, open: openReset, close: closeReset },
+		passwordless: {
+			email: loginCodeEmail,        // adresse à laquelle le code a été envoyé (null = pas encore demandé)
+			resend: handleLoginCodeResend,
+			resendIn: resendTimer.remaining,
+			cancel: cancelLoginCode,      // retour à la saisie de l'email
+		},
+		mfa: {
+			challenge: mfaChallenge,
+			backupMode,
+			toggleBackupMode,
+			resend: handleMfaResend,
+			resendIn: resendTimer.remaining,
+			cancel: cancelMfa,
+		},
+		verification: {
+			pending: pendingVerification,
+			resend: handleVerificationResend,
+			resendIn: resendTimer.remaining,
+			cancel: cancelVerification,
+		},
+	};
+}
+
+export type AuthForm = ReturnType<typeof useAuthForm>;
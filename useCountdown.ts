@@ -0,0 +1,27 @@
+// useCountdown.ts
+// Compte à rebours en secondes (ex: "Renvoyer le code dans 30 s")
+// - start(secondes) relance le compteur, remaining vaut 0 quand c'est terminé
+
+import { useCallback, useEffect, useState } from 'react';
+
+export function useCountdown(initialSeconds = 0) {
+	// On garde l'heure de fin plutôt qu'un compteur : pas de dérive si l'app passe en arrière-plan.
+	const [endsAt, setEndsAt] = useState(() => Date.now() + initialSeconds * 1000);
+	const [now, setNow] = useState(() => Date.now());
+
+	const remaining = Math.max(0, Math.ceil((endsAt - now) / 1000));
+
+	useEffect(() => {
+		if (remaining <= 0) return;
+		const timer = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(timer);
+	}, [remaining > 0]); // on ne recrée l'intervalle qu'au démarrage / à la fin
+
+	const start = useCallback((seconds: number) => {
+		const current = Date.now();
+		setNow(current);
+		setEndsAt(current + seconds * 1000);
+	}, []);
+
+	return { remaining, start };
+}
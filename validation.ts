@@ -0,0 +1,201 @@
+// validation.ts
+// Validation déclarative des formulaires, champ par champ
+// - règles synchrones (required, email, minLength, matches...) et asynchrones (ex: email déjà utilisé)
+// - suivi "touched" (le champ a perdu le focus) et "dirty" (la valeur a changé)
+// - erreurs serveur (422) rattachées au bon champ
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+export type FormValues = Record<string, string>;
+
+/***
+ * Validator : reçoit la valeur du champ + toutes les valeurs (pour comparer deux champs, ex: confirmation).
+ * Retourne le message d'erreur, ou null si c'est valide.
+ */
+export type Validator<V extends FormValues> = (value: string, values: V) => string | null;
+export type AsyncValidator<V extends FormValues> = (value: string, values: V) => Promise<string | null>;
+
+export type FieldRules<V extends FormValues> = {
+	validate?: Validator<V>[];           // exécutés dans l'ordre, la première erreur gagne
+	validateAsync?: AsyncValidator<V>;   // lancé seulement si les règles synchrones passent
+	debounceMs?: number;                 // attente après la dernière frappe avant l'appel async (défaut 400ms)
+	live?: boolean;                      // affiche l'erreur dès que le champ est modifié, sans attendre le blur
+};
+
+// Seuls les champs présents dans les règles sont validés (ex: pas de "name" en mode Login).
+export type FormRules<V extends FormValues> = Partial<Record<keyof V, FieldRules<V>>>;
+
+export type FieldErrors<V extends FormValues> = Partial<Record<keyof V, string>>;
+type FieldFlags<V extends FormValues> = Partial<Record<keyof V, boolean>>;
+
+// Règles prêtes à l'emploi
+export const required = <V extends FormValues>(message = 'Ce champ est obligatoire.'): Validator<V> =>
+	(value) => (value.trim().length > 0 ? null : message);
+
+export const email = <V extends FormValues>(message = 'Adresse email invalide.'): Validator<V> =>
+	(value) => (/\S+@\S+\.\S+/.test(value) ? null : message);
+
+export const minLength = <V extends FormValues>(min: number, message = `Au moins ${min} caractères.`): Validator<V> =>
+	(value) => (value.length >= min ? null : message);
+
+export const matches = <V extends FormValues>(field: keyof V, message = 'Les valeurs ne correspondent pas.'): Validator<V> =>
+	(value, values) => (value === values[field] ? null : message);
+
+/***
+ * extractFieldErrors(data)
+ *  Convertit le corps d'une réponse 422 en { champ: message }. Formats acceptés :
+ *   * { errors: { email: "déjà utilisé" } }
+ *   * { errors: { email: ["déjà utilisé", "..."] } }
+ *   * { errors: [{ field: "email", message: "déjà utilisé" }] }
+ */
+export function extractFieldErrors(data: any): Record<string, string> {
+	const errors = data?.errors;
+	const result: Record<string, string> = {};
+
+	if (Array.isArray(errors)) {
+		errors.forEach((item: any) => {
+			const field = item?.field ?? item?.path ?? item?.param;
+			if (typeof field === 'string' && item?.message) result[field] = String(item.message);
+		});
+	} else if (errors && typeof errors === 'object') {
+		Object.entries(errors).forEach(([field, message]) => {
+			const first = Array.isArray(message) ? message[0] : message;
+			if (first) result[field] = String(first);
+		});
+	}
+	return result;
+}
+
+// Résultat du dernier appel async : on garde la valeur testée pour ignorer les réponses périmées.
+type AsyncResult = { value: string; error: string | null };
+
+/***
+ * useFormValidation(values, rules)
+ *  * Les valeurs restent dans les useState du composant : le hook ne fait que les lire.
+ *  * errors : erreurs à AFFICHER (champ touché, ou submit tenté, ou erreur serveur).
+ *  * isValid : aucune erreur (affichée ou non) -> sert à activer le bouton.
+ *  * invalidFields : champs en erreur, affichée ou non (dans l'ordre des règles).
+ *  * isValidating : un validateur async est en cours.
+ */
+export function useFormValidation<V extends FormValues>(values: V, rules: FormRules<V>) {
+	const [touched, setTouched] = useState<FieldFlags<V>>({});
+	const [showAll, setShowAll] = useState(false);
+	const [serverErrors, setServerErrorsState] = useState<FieldErrors<V>>({});
+	const [asyncResults, setAsyncResults] = useState<Partial<Record<keyof V, AsyncResult>>>({});
+
+	// Valeurs de départ : "dirty" = différent de ces valeurs.
+	const initialValues = useRef(values);
+	// Valeurs envoyées au serveur lors de la dernière réponse 422.
+	const serverValues = useRef<Partial<V>>({});
+
+	const fields = Object.keys(rules) as (keyof V)[];
+
+	// Erreurs synchrones, recalculées à chaque rendu.
+	const syncErrors = useMemo(() => {
+		const result: FieldErrors<V> = {};
+		fields.forEach(field => {
+			for (const validator of rules[field]?.validate ?? []) {
+				const message = validator(values[field] ?? '', values);
+				if (message) {
+					result[field] = message;
+					break;
+				}
+			}
+		});
+		return result;
+	}, [values, rules]);
+
+	// Champs dont la validation async n'a pas encore répondu pour la valeur actuelle.
+	const pendingFields = fields.filter(field => {
+		const value = values[field] ?? '';
+		return !!rules[field]?.validateAsync && !syncErrors[field] && value.length > 0 && asyncResults[field]?.value !== value;
+	});
+	const pendingKey = pendingFields.map(field => `${String(field)}=${values[field]}`).join('&');
+
+	// Lance les validateurs async (avec un délai pour ne pas appeler le serveur à chaque lettre).
+	useEffect(() => {
+		let cancelled = false;
+		const timers = pendingFields.map(field => {
+			const rule = rules[field]!;
+			const value = values[field];
+			return setTimeout(async () => {
+				let error: string | null = null;
+				try {
+					error = await rule.validateAsync!(value, values);
+				} catch {
+					// Validateur indisponible (réseau...) : on ne bloque pas l'utilisateur, le serveur revérifiera.
+				}
+				if (!cancelled) {
+					setAsyncResults(prev => ({ ...prev, [field]: { value, error } }));
+				}
+			}, rule.debounceMs ?? 400);
+		});
+		return () => {
+			cancelled = true;
+			timers.forEach(clearTimeout);
+		};
+	}, [pendingKey]);
+
+	// Une erreur serveur disparaît dès que l'utilisateur modifie le champ concerné.
+	const activeServerErrors: FieldErrors<V> = {};
+	(Object.keys(serverErrors) as (keyof V)[]).forEach(field => {
+		if (serverValues.current[field] === values[field]) activeServerErrors[field] = serverErrors[field];
+	});
+
+	const allErrors: FieldErrors<V> = {};
+	fields.forEach(field => {
+		const asyncResult = asyncResults[field];
+		const asyncError = asyncResult?.value === values[field] ? asyncResult.error : null;
+		const message = activeServerErrors[field] ?? syncErrors[field] ?? asyncError;
+		if (message) allErrors[field] = message;
+	});
+
+	const dirty: FieldFlags<V> = {};
+	fields.forEach(field => {
+		dirty[field] = (values[field] ?? '') !== (initialValues.current[field] ?? '');
+	});
+
+	const errors: FieldErrors<V> = {};
+	fields.forEach(field => {
+		const live = rules[field]?.live && dirty[field];
+		if (allErrors[field] && (touched[field] || showAll || live || activeServerErrors[field])) {
+			errors[field] = allErrors[field];
+		}
+	});
+
+	// onBlur d'un champ
+	const touch = useCallback((field: keyof V) => {
+		setTouched(prev => (prev[field] ? prev : { ...prev, [field]: true }));
+	}, []);
+
+	// Au submit : on affiche toutes les erreurs, même sur les champs jamais touchés.
+	const touchAll = useCallback(() => setShowAll(true), []);
+
+	// Erreurs renvoyées par le serveur (422), rattachées aux valeurs envoyées.
+	const setServerErrors = useCallback((next: FieldErrors<V>, sentValues: V) => {
+		serverValues.current = sentValues;
+		setServerErrorsState(next);
+	}, []);
+
+	// Repart de zéro (ex: changement de mode) : plus rien n'est touché ni modifié.
+	const reset = useCallback((nextValues: V) => {
+		initialValues.current = nextValues;
+		serverValues.current = {};
+		setTouched({});
+		setShowAll(false);
+		setServerErrorsState({});
+	}, []);
+
+	return {
+		errors,
+		touched,
+		dirty,
+		isValid: Object.keys(allErrors).length === 0,
+		invalidFields: fields.filter(field => allErrors[field]),
+		isValidating: pendingFields.length > 0,
+		touch,
+		touchAll,
+		setServerErrors,
+		reset,
+	};
+}